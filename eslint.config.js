@@ -23,4 +23,10 @@ export default tseslint.config(
       "@typescript-eslint/no-unused-vars": "off",
     },
   },
+  {
+    files: ["server/**/*.ts", "scripts/**/*.ts"],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 );
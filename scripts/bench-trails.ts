@@ -0,0 +1,100 @@
+import { createGame, step, trailOf, type Direction, type GameState } from "../src/lib/game";
+import { cellIndex } from "../src/lib/game/ownership";
+
+// Measures tick cost as the player's trail grows. The player walks an outward
+// spiral around its own land, so the trail never closes and keeps getting
+// longer until the spiral reaches the walls. Next to the whole tick it times
+// the trail collision check both ways: a scan over every trail (the old
+// approach) and a lookup in state.trailGrid.
+//
+//   npm run bench
+
+// === CONFIG ===
+const GRID_SIZE = 300;
+const BUCKET_TICKS = 2000; // Ticks averaged into each reported row
+const RUNS = 5; // Best of this many runs per bucket, to smooth out GC pauses
+
+// === SPIRAL PATH ===
+// Corners of the spiral, starting from the cell just outside the starting
+// square on the player's initial heading (RIGHT)
+const spiralCorners = (center: number, halfSize: number): [number, number][] => {
+  const corners: [number, number][] = [[center + halfSize + 1, center]];
+  for (let r = halfSize + 1; center + r + 2 < GRID_SIZE - 1; r += 2) {
+    corners.push(
+      [center + r, center - r],
+      [center - r, center - r],
+      [center - r, center + r],
+      [center + r + 2, center + r]
+    );
+  }
+  return corners;
+};
+
+const directionTowards = (state: GameState, [tx, ty]: [number, number]): Direction => {
+  const { x, y } = state.snakes[0];
+  if (tx > x) return "RIGHT";
+  if (tx < x) return "LEFT";
+  return ty > y ? "DOWN" : "UP";
+};
+
+// === COLLISION CHECKS ===
+const scanTrails = (state: GameState, x: number, y: number) =>
+  state.snakes.some(snake => trailOf(snake).some(([tx, ty]) => tx === x && ty === y));
+
+const lookupTrail = (state: GameState, x: number, y: number) =>
+  state.trailGrid[cellIndex(state.config.gridWidth, x, y)] !== 0;
+
+interface Sample {
+  trailLength: number;
+  // Durations in milliseconds
+  tick: number;
+  scan: number;
+  lookup: number;
+}
+
+// Plays the whole spiral once and times every tick
+const runSpiral = (): Sample[] => {
+  let state = createGame({ gridWidth: GRID_SIZE, gridHeight: GRID_SIZE, botCount: 0, playerName: "Bench" });
+  const corners = spiralCorners(Math.floor(GRID_SIZE / 2), Math.floor(state.config.initialTerritorySize / 2));
+  const samples: Sample[] = [];
+
+  for (const corner of corners) {
+    while (state.snakes[0].x !== corner[0] || state.snakes[0].y !== corner[1]) {
+      const direction = directionTowards(state, corner);
+      let start = performance.now();
+      state = step(state, { direction });
+      const tick = performance.now() - start;
+      if (!state.snakes[0].isAlive) throw new Error(`Player died on tick ${state.tick}`);
+
+      // The head is never on a trail here, the worst case for a scan
+      const { x, y } = state.snakes[0];
+      start = performance.now();
+      scanTrails(state, x, y);
+      const scan = performance.now() - start;
+      start = performance.now();
+      lookupTrail(state, x, y);
+      const lookup = performance.now() - start;
+
+      samples.push({ trailLength: state.snakes[0].trailLength, tick, scan, lookup });
+    }
+  }
+
+  return samples;
+};
+
+// === REPORT ===
+const runs = Array.from({ length: RUNS }, runSpiral);
+const buckets = Math.floor(runs[0].length / BUCKET_TICKS);
+
+console.log(`${GRID_SIZE}x${GRID_SIZE} arena, ${runs[0].length} ticks, best of ${RUNS} runs\n`);
+console.log("trail length        tick µs    scan µs  lookup µs");
+const columns: (keyof Omit<Sample, "trailLength">)[] = ["tick", "scan", "lookup"];
+for (let bucket = 0; bucket < buckets; bucket++) {
+  const from = bucket * BUCKET_TICKS;
+  const to = from + BUCKET_TICKS;
+  const averages = columns.map(column => Math.min(...runs.map(samples =>
+    samples.slice(from, to).reduce((total, sample) => total + sample[column], 0) / BUCKET_TICKS
+  )));
+  const range = `${runs[0][from].trailLength}-${runs[0][to - 1].trailLength}`;
+  console.log(range.padEnd(18) + averages.map(ms => (ms * 1000).toFixed(1).padStart(11)).join(""));
+}
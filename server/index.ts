@@ -0,0 +1,49 @@
+import { WebSocketServer } from "ws";
+import { createRoom, type Room } from "./room";
+
+// === CONFIG ===
+const PORT = Number(process.env.PORT ?? 8787);
+const HOST = process.env.HOST ?? "0.0.0.0";
+const TICK_MS = 100; // Ten cells a second, the default single-player speed
+const KEYFRAME_INTERVAL = 50; // Full snapshot every 5 seconds
+const ROOM_CONFIG = {
+  gridWidth: Number(process.env.GRID_WIDTH ?? 100),
+  gridHeight: Number(process.env.GRID_HEIGHT ?? 60),
+  botCount: Number(process.env.BOTS ?? 0),
+};
+
+const rooms = new Map<string, Room>();
+
+const wss = new WebSocketServer({ host: HOST, port: PORT });
+
+// Clients pick a room with ws://host:port/?room=name
+wss.on("connection", (socket, request) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const name = url.searchParams.get("room") || "lobby";
+
+  let room = rooms.get(name);
+  if (!room) {
+    room = createRoom(name, { tickMs: TICK_MS, keyframeInterval: KEYFRAME_INTERVAL, config: ROOM_CONFIG });
+    rooms.set(name, room);
+  }
+  room.connect(socket);
+
+  socket.on("close", () => {
+    if (room.isEmpty()) {
+      room.close();
+      rooms.delete(name);
+    }
+  });
+});
+
+wss.on("listening", () => {
+  console.log(`Paper Snake server listening on ws://${HOST}:${PORT}`);
+});
+
+const shutdown = () => {
+  for (const room of rooms.values()) room.close();
+  wss.close(() => process.exit(0));
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
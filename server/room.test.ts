@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+import { turnLeft } from "../src/lib/game/directions";
+import { countOwnedCells } from "../src/lib/game/ownership";
+import type { GameState } from "../src/lib/game/types";
+import { applyDelta, decodeSnapshot, type ServerMessage } from "../src/lib/multiplayer/protocol";
+import { createRoom, type Room } from "./room";
+
+const TICK_MS = 20;
+const KEYFRAME_INTERVAL = 5;
+// Long enough that no keyframe arrives during a test
+const NO_KEYFRAMES = 100000;
+const WAIT_MS = 3000; // Longest any expected message may take
+
+// === SIMULATED CLIENT ===
+// A bare socket that keeps every message the server sent it
+interface TestClient {
+  socket: WebSocket;
+  messages: ServerMessage[];
+  send: (message: unknown) => void;
+  // Resolves with the first message, already received or still to come,
+  // that matches
+  waitFor: (match: (message: ServerMessage) => boolean) => Promise<ServerMessage>;
+}
+
+const connect = (url: string): Promise<TestClient> => {
+  const socket = new WebSocket(url);
+  const messages: ServerMessage[] = [];
+  const waiting = new Set<() => void>();
+
+  socket.on("message", (data) => {
+    messages.push(JSON.parse(data.toString()) as ServerMessage);
+    waiting.forEach(check => check());
+  });
+
+  const client: TestClient = {
+    socket,
+    messages,
+    send: (message) => socket.send(typeof message === "string" ? message : JSON.stringify(message)),
+    waitFor: (match) => new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        waiting.delete(check);
+        reject(new Error("Timed out waiting for a message"));
+      }, WAIT_MS);
+      const check = () => {
+        const found = messages.find(match);
+        if (!found) return;
+        clearTimeout(timeout);
+        waiting.delete(check);
+        resolve(found);
+      };
+      waiting.add(check);
+      check();
+    }),
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once("open", () => resolve(client));
+    socket.once("error", reject);
+  });
+};
+
+const welcomeOf = async (client: TestClient) => {
+  const message = await client.waitFor(m => m.type === "welcome");
+  if (message.type !== "welcome") throw new Error("Not a welcome");
+  return message;
+};
+
+// The game as the client sees it, rebuilt from everything received so far
+const viewOf = (client: TestClient): GameState | null => {
+  let state: GameState | null = null;
+  for (const message of client.messages) {
+    if (message.type === "welcome" || message.type === "snapshot") state = decodeSnapshot(message.snapshot);
+    if (message.type === "delta" && state) state = applyDelta(state, message.delta);
+  }
+  return state;
+};
+
+const latestTick = (client: TestClient) =>
+  Math.max(0, ...client.messages.flatMap(m => (m.type === "delta" ? [m.delta.tick] : [])));
+
+// === ROOM OVER A REAL SOCKET ===
+describe("room", () => {
+  let server: WebSocketServer;
+  let room: Room;
+  let url: string;
+  const clients: TestClient[] = [];
+
+  const join = async (name: string) => {
+    const client = await connect(url);
+    clients.push(client);
+    client.send({ type: "join", name });
+    return client;
+  };
+
+  const openRoom = (keyframeInterval: number) => {
+    room = createRoom("test", {
+      tickMs: TICK_MS,
+      keyframeInterval,
+      config: { gridWidth: 80, gridHeight: 80, initialTerritorySize: 5 },
+    });
+  };
+
+  beforeEach(async () => {
+    openRoom(KEYFRAME_INTERVAL);
+    server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+    server.on("connection", socket => room.connect(socket));
+    await new Promise(resolve => server.once("listening", resolve));
+    const address = server.address();
+    if (typeof address === "string") throw new Error("Expected a TCP address");
+    url = `ws://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.socket.close());
+    clients.length = 0;
+    room.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("welcomes every client and streams snapshots and deltas to all of them", async () => {
+    const alice = await join("Alice");
+    const bob = await join("Bob");
+    const [aliceWelcome, bobWelcome] = await Promise.all([welcomeOf(alice), welcomeOf(bob)]);
+
+    expect(aliceWelcome.id).not.toBe(bobWelcome.id);
+    expect(aliceWelcome.tickMs).toBe(TICK_MS);
+    expect(bobWelcome.snapshot.snakes.map(snake => snake.name)).toEqual(expect.arrayContaining(["Alice", "Bob"]));
+
+    for (const client of [alice, bob]) {
+      const delta = await client.waitFor(m => m.type === "delta");
+      const snapshot = await client.waitFor(m => m.type === "snapshot");
+      if (delta.type !== "delta" || snapshot.type !== "snapshot") throw new Error("Wrong message type");
+      expect(snapshot.snapshot.tick % KEYFRAME_INTERVAL).toBe(0);
+      expect(snapshot.snapshot.snakes.map(snake => snake.name)).toEqual(expect.arrayContaining(["Alice", "Bob"]));
+    }
+
+    // Deltas follow on from each other tick by tick
+    const ticks = alice.messages.flatMap(m => (m.type === "delta" ? [m.delta.tick] : []));
+    expect(ticks.length).toBeGreaterThan(0);
+    expect(new Set(ticks).size).toBe(ticks.length);
+  });
+
+  it("acknowledges a turn once a tick has applied it", async () => {
+    const alice = await join("Alice");
+    const welcome = await welcomeOf(alice);
+    const me = welcome.snapshot.snakes.find(snake => snake.id === welcome.id);
+
+    alice.send({ type: "input", direction: turnLeft(me.direction), seq: 1 });
+    const acked = await alice.waitFor(m => (m.type === "delta" || m.type === "snapshot") && m.ack === 1);
+    expect(acked).toBeDefined();
+  });
+
+  it("tells everyone else about a player joining or leaving mid-game", async () => {
+    // Only deltas, so nothing but them can bring the other client up to date
+    room.close();
+    openRoom(NO_KEYFRAMES);
+
+    const alice = await join("Alice");
+    await welcomeOf(alice);
+    await alice.waitFor(m => m.type === "delta");
+
+    const bob = await join("Bob");
+    const { id: bobId } = await welcomeOf(bob);
+    const joinedAt = latestTick(alice);
+    await alice.waitFor(m => m.type === "delta" && m.delta.tick > joinedAt + 1);
+
+    let view = viewOf(alice);
+    expect(view.snakes.map(snake => snake.id)).toContain(bobId);
+    expect(countOwnedCells(view.ownership, bobId)).toBe(25);
+
+    bob.socket.close();
+    await new Promise(resolve => bob.socket.once("close", resolve));
+    const leftAt = latestTick(alice);
+    await alice.waitFor(m => m.type === "delta" && m.delta.tick > leftAt + 3);
+
+    view = viewOf(alice);
+    expect(view.snakes.map(snake => snake.id)).not.toContain(bobId);
+    expect(countOwnedCells(view.ownership, bobId)).toBe(0);
+  });
+
+  it("rejects malformed messages and keeps the room running", async () => {
+    const alice = await join("Alice");
+    const bob = await join("Bob");
+    await Promise.all([welcomeOf(alice), welcomeOf(bob)]);
+
+    const malformed = [
+      { type: "input", direction: "SIDEWAYS", seq: 1 },
+      { type: "input", direction: "toString", seq: 2 },
+      { type: "input", direction: "UP", seq: "3" },
+      { type: "input", direction: "UP", seq: null },
+      { type: "join", name: 5 },
+      { type: "dance" },
+      "not json",
+    ];
+    malformed.forEach(message => alice.send(message));
+
+    await alice.waitFor(() => alice.messages.filter(m => m.type === "error").length === malformed.length);
+
+    // Later ticks still reach both clients
+    const lastTick = Math.max(...bob.messages.flatMap(m => (m.type === "delta" ? [m.delta.tick] : [0])));
+    await bob.waitFor(m => m.type === "delta" && m.delta.tick > lastTick + 2);
+    await alice.waitFor(m => m.type === "delta" && m.delta.tick > lastTick + 2);
+  });
+});
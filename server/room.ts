@@ -0,0 +1,151 @@
+import type { WebSocket } from "ws";
+import { addPlayer, createGame, removeSnake, step } from "../src/lib/game/engine";
+import { randomSeed } from "../src/lib/game/random";
+import { canQueueTurn, MAX_QUEUED_TURNS } from "../src/lib/game/turns";
+import type { Direction, GameConfig, GameState } from "../src/lib/game/types";
+import {
+  encodeDelta,
+  encodeSnapshot,
+  parseClientMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from "../src/lib/multiplayer/protocol";
+
+export interface RoomOptions {
+  // Simulation step length, matching the single-player game speed
+  tickMs: number;
+  // Full snapshot every N ticks so clients recover from any missed delta
+  keyframeInterval: number;
+  config: Partial<GameConfig>;
+}
+
+interface Client {
+  socket: WebSocket;
+  // Snake id once the client has joined
+  id: number | null;
+  // Turns still to apply, one per tick, with the seq each arrived with
+  turns: { seq: number; direction: Direction }[];
+  // Highest input seq already applied by the simulation
+  ack: number;
+}
+
+export interface Room {
+  name: string;
+  connect: (socket: WebSocket) => void;
+  isEmpty: () => boolean;
+  close: () => void;
+}
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// === ROOM ===
+// One authoritative simulation shared by every socket connected to it. The
+// loop only runs while somebody is connected.
+export const createRoom = (name: string, options: RoomOptions): Room => {
+  let state: GameState = createGame({ ...options.config, seed: randomSeed(), playerName: null });
+  // Last state broadcast to clients. Joins and leaves change the state
+  // between ticks, so deltas are taken against this rather than the state
+  // the step started from.
+  let sent = state;
+  const clients = new Set<Client>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const tick = () => {
+    const players: Record<number, Direction | null> = {};
+    for (const client of clients) {
+      if (client.id === null) continue;
+      const turn = client.turns.shift();
+      players[client.id] = turn?.direction ?? null;
+      if (turn) client.ack = turn.seq;
+    }
+
+    state = step(state, { players });
+
+    const keyframe = state.tick % options.keyframeInterval === 0;
+    const delta = keyframe ? null : encodeDelta(sent, state);
+    sent = state;
+    const snapshot = keyframe ? encodeSnapshot(state) : null;
+
+    for (const client of clients) {
+      if (client.id === null) continue;
+      send(client.socket, snapshot
+        ? { type: "snapshot", snapshot, ack: client.ack }
+        : { type: "delta", delta, ack: client.ack });
+    }
+  };
+
+  const start = () => {
+    if (!timer) timer = setInterval(tick, options.tickMs);
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const handleMessage = (client: Client, message: ClientMessage) => {
+    switch (message.type) {
+      case "join": {
+        if (client.id !== null) return;
+        const joined = addPlayer(state, message.name.slice(0, 15) || "Player");
+        state = joined.state;
+        if (joined.id === null) {
+          send(client.socket, { type: "error", message: "Room is full" });
+          client.socket.close();
+          return;
+        }
+        client.id = joined.id;
+        send(client.socket, {
+          type: "welcome",
+          id: joined.id,
+          tickMs: options.tickMs,
+          snapshot: encodeSnapshot(state),
+        });
+        start();
+        break;
+      }
+      case "input": {
+        if (client.id === null) return;
+        const snake = state.snakes.find(other => other.id === client.id);
+        const last = client.turns.length > 0 ? client.turns[client.turns.length - 1].direction : snake?.direction;
+        // The client checks the same rules, so a dropped turn only comes from
+        // the two disagreeing about the heading; its seq is then acked along
+        // with the next turn that is applied
+        if (!snake?.isAlive || !last || client.turns.length >= MAX_QUEUED_TURNS) return;
+        if (!canQueueTurn(message.direction, last)) return;
+        client.turns.push({ seq: message.seq, direction: message.direction });
+        break;
+      }
+    }
+  };
+
+  return {
+    name,
+    connect: (socket) => {
+      const client: Client = { socket, id: null, turns: [], ack: 0 };
+      clients.add(client);
+
+      socket.on("message", (data) => {
+        const message = parseClientMessage(data.toString());
+        if (message) {
+          handleMessage(client, message);
+        } else {
+          send(socket, { type: "error", message: "Malformed message" });
+        }
+      });
+
+      socket.on("close", () => {
+        clients.delete(client);
+        if (client.id !== null) state = removeSnake(state, client.id);
+        if (clients.size === 0) stop();
+      });
+    },
+    isEmpty: () => clients.size === 0,
+    close: () => {
+      stop();
+      for (const client of clients) client.socket.close();
+    },
+  };
+};
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { Direction } from "@/lib/game";
+import {
+  bindKey,
+  describeKey,
+  KEY_PRESETS,
+  matchPreset,
+  MAX_KEYS_PER_DIRECTION,
+  normalizeKey,
+  PAUSE_KEYS,
+  unbindKey,
+  type KeyBindings,
+  type KeyPreset,
+} from "@/lib/input";
+
+const DIRECTION_LABELS: Record<Direction, string> = {
+  UP: "Up",
+  DOWN: "Down",
+  LEFT: "Left",
+  RIGHT: "Right",
+};
+
+interface KeyBindingsEditorProps {
+  value: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+// Pick a preset, or click a key slot and press the key to put there
+export const KeyBindingsEditor = ({ value, onChange }: KeyBindingsEditorProps) => {
+  // The slot waiting for a key press
+  const [listening, setListening] = useState<{ direction: Direction; slot: number } | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const preset = matchPreset(value);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    // Captured before anything else on the page sees the key
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || ["Shift", "Control", "Alt", "Meta"].includes(e.key)) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      const key = normalizeKey(e.key);
+      if (key === "Escape") {
+        setListening(null);
+      } else if (PAUSE_KEYS.includes(key)) {
+        setHint(`${describeKey(key)} is kept for pausing`);
+      } else {
+        const bindings = bindKey(value, listening.direction, listening.slot, key);
+        if (bindings) {
+          onChange(bindings);
+          setListening(null);
+        } else {
+          setHint(`${describeKey(key)} is the only key for another direction`);
+        }
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, { capture: true });
+    return () => window.removeEventListener("keydown", handleKeyDown, { capture: true });
+  }, [listening, value, onChange]);
+
+  const listen = (direction: Direction, slot: number) => {
+    setHint(null);
+    setListening(listening?.direction === direction && listening.slot === slot ? null : { direction, slot });
+  };
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        className="flex-wrap justify-start"
+        value={preset ?? "custom"}
+        onValueChange={(selected) => {
+          if (selected in KEY_PRESETS) onChange(KEY_PRESETS[selected as KeyPreset].bindings);
+        }}
+      >
+        {Object.entries(KEY_PRESETS).map(([name, { label }]) => (
+          <ToggleGroupItem key={name} value={name}>{label}</ToggleGroupItem>
+        ))}
+        <ToggleGroupItem value="custom" disabled={preset !== null}>Custom</ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] items-center gap-2">
+        {(Object.keys(DIRECTION_LABELS) as Direction[]).map(direction => (
+          <div key={direction} className="contents">
+            <span className="pr-2 text-sm text-muted-foreground">{DIRECTION_LABELS[direction]}</span>
+            {Array.from({ length: MAX_KEYS_PER_DIRECTION }, (_, slot) => {
+              const key = value[direction][slot];
+              const isListening = listening?.direction === direction && listening.slot === slot;
+              // Every direction keeps at least one key
+              const canUnbind = key !== undefined && value[direction].length > 1;
+
+              return (
+                <div key={slot} className="relative">
+                  <Button
+                    type="button"
+                    variant={isListening ? "neon" : "outline"}
+                    className="w-full font-display"
+                    onClick={() => listen(direction, slot)}
+                    onBlur={() => isListening && setListening(null)}
+                  >
+                    {isListening ? "Press a key…" : key !== undefined ? describeKey(key) : "—"}
+                  </Button>
+                  {canUnbind && !isListening && (
+                    <button
+                      type="button"
+                      aria-label={`Unbind ${describeKey(key)}`}
+                      className="absolute -right-1.5 -top-1.5 rounded-full bg-muted p-0.5 text-muted-foreground hover:text-foreground"
+                      onClick={() => onChange(unbindKey(value, direction, slot))}
+                    >
+                      <X className="size-3" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {hint && <p className="text-xs text-destructive">{hint}</p>}
+    </div>
+  );
+};
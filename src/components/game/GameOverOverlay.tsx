@@ -1,35 +1,29 @@
-import { Button } from "@/components/ui/button";
+import { GAME_MODES, type RunEndReason } from "@/lib/game";
+import { RunSummary, type RunSummaryProps } from "./RunSummary";
 
-interface GameOverOverlayProps {
-  score: number;
-  onRestart: () => void;
-}
+// Ways a run can be lost
+const TITLES: Partial<Record<RunEndReason, string>> = {
+  died: "GAME OVER",
+  "time-up": "TIME'S UP",
+  beaten: "OUTPACED",
+};
+
+export const GameOverOverlay = (props: RunSummaryProps) => {
+  const { mode, outcome } = props.result;
 
-export const GameOverOverlay = ({ score, onRestart }: GameOverOverlayProps) => {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/90 backdrop-blur-sm animate-fade-in">
-      <div className="text-center space-y-6 px-6">
-        <h2 className="text-5xl md:text-6xl font-display font-black text-destructive tracking-wider">
-          GAME OVER
-        </h2>
-        
+      <div className="text-center space-y-6 px-6 w-full max-w-lg max-h-full overflow-y-auto py-6">
         <div className="space-y-2">
-          <p className="text-lg text-muted-foreground uppercase tracking-wider">
-            Territory Captured
-          </p>
-          <p className="text-4xl font-display font-bold text-primary text-glow">
-            {score.toFixed(1)}%
+          <h2 className="text-5xl md:text-6xl font-display font-black text-destructive tracking-wider">
+            {TITLES[outcome.reason] ?? "GAME OVER"}
+          </h2>
+          <p className="text-sm text-muted-foreground uppercase tracking-widest">
+            {GAME_MODES[mode].label} mode
           </p>
         </div>
 
-        <Button
-          onClick={onRestart}
-          variant="game"
-          size="xl"
-          className="mt-4"
-        >
-          Play Again
-        </Button>
+        <RunSummary {...props} />
       </div>
     </div>
   );
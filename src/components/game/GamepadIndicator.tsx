@@ -0,0 +1,18 @@
+import { Gamepad2 } from "lucide-react";
+import { useGamepadConnected } from "@/hooks/use-gamepad";
+
+// Small badge at the top of the screen while a controller is connected
+export const GamepadIndicator = () => {
+  const connected = useGamepadConnected();
+  if (!connected) return null;
+
+  return (
+    <div
+      role="status"
+      className="pointer-events-none fixed left-1/2 top-4 z-[60] flex -translate-x-1/2 items-center gap-2 rounded-full border border-border bg-background/70 px-3 py-1 text-xs font-display uppercase tracking-wider text-primary animate-fade-in"
+    >
+      <Gamepad2 className="h-4 w-4" />
+      Controller connected
+    </div>
+  );
+};
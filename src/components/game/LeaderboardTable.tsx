@@ -0,0 +1,85 @@
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn, formatDuration } from "@/lib/utils";
+import { GAME_MODES } from "@/lib/game";
+import type { RankedEntry } from "@/lib/leaderboard";
+
+export type LeaderboardSortKey = "percentage" | "durationMs" | "kills" | "date";
+
+export interface LeaderboardSort {
+  key: LeaderboardSortKey;
+  descending: boolean;
+}
+
+const COLUMNS: { key: LeaderboardSortKey; label: string }[] = [
+  { key: "percentage", label: "Territory" },
+  { key: "durationMs", label: "Time" },
+  { key: "kills", label: "Kills" },
+  { key: "date", label: "Date" },
+];
+
+interface LeaderboardTableProps {
+  rows: RankedEntry[];
+  // Entry to call out, e.g. the run that just ended
+  highlightId?: string | null;
+  // Leaves out the date column on small screens such as the game-over overlay
+  compact?: boolean;
+  // Column headers become sort buttons when given
+  sort?: LeaderboardSort;
+  onSortChange?: (sort: LeaderboardSort) => void;
+}
+
+export const LeaderboardTable = ({ rows, highlightId, compact = false, sort, onSortChange }: LeaderboardTableProps) => {
+  const columns = compact ? COLUMNS.filter(column => column.key !== "date") : COLUMNS;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="hover:bg-transparent">
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Player</TableHead>
+          {!compact && <TableHead>Mode</TableHead>}
+          {columns.map(({ key, label }) => (
+            <TableHead key={key} className="text-right">
+              {onSortChange ? (
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-foreground"
+                  onClick={() => onSortChange({
+                    key,
+                    descending: sort?.key === key ? !sort.descending : true,
+                  })}
+                >
+                  {label}
+                  {sort?.key === key && (sort.descending ? <ArrowDown className="size-3" /> : <ArrowUp className="size-3" />)}
+                </button>
+              ) : (
+                <span className="uppercase tracking-wider">{label}</span>
+              )}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(({ rank, entry }) => (
+          <TableRow
+            key={entry.id}
+            className={cn(entry.id === highlightId && "bg-primary/15 text-primary font-semibold hover:bg-primary/20")}
+          >
+            <TableCell className="font-display tabular-nums">{rank}</TableCell>
+            <TableCell className="max-w-40 truncate">{entry.name}</TableCell>
+            {!compact && <TableCell className="text-muted-foreground">{GAME_MODES[entry.mode].label}</TableCell>}
+            <TableCell className="text-right font-display tabular-nums">{entry.percentage.toFixed(1)}%</TableCell>
+            <TableCell className="text-right tabular-nums">{formatDuration(entry.durationMs)}</TableCell>
+            <TableCell className="text-right tabular-nums">{entry.kills}</TableCell>
+            {!compact && (
+              <TableCell className="text-right text-muted-foreground">
+                {new Date(entry.date).toLocaleDateString()}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,30 @@
+import { forwardRef } from "react";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { cn } from "@/lib/utils";
+
+// Side length in CSS pixels
+const MINIMAP_SIZE = 180;
+const MOBILE_MINIMAP_SIZE = 110;
+
+// Corner canvas the game loop draws the minimap into (see renderMinimap).
+// The drawing size never changes, since a canvas handed over to the
+// simulation worker can no longer be resized from here; smaller screens
+// scale it down instead.
+export const Minimap = forwardRef<HTMLCanvasElement, { side: "left" | "right" }>(({ side }, ref) => {
+  const size = useIsMobile() ? MOBILE_MINIMAP_SIZE : MINIMAP_SIZE;
+
+  return (
+    <canvas
+      ref={ref}
+      width={MINIMAP_SIZE}
+      height={MINIMAP_SIZE}
+      style={{ width: size, height: size }}
+      className={cn(
+        "pointer-events-none fixed bottom-4 z-10 rounded-md border border-border bg-background/70",
+        side === "left" ? "left-4" : "right-4"
+      )}
+    />
+  );
+});
+
+Minimap.displayName = "Minimap";
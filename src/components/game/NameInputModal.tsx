@@ -1,19 +1,68 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Download, Settings, Trophy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useGamepadMenu } from "@/hooks/use-gamepad";
+import { useInstallPrompt } from "@/hooks/use-install-prompt";
+import { GAME_MODES, type BotDifficulty, type GameMode } from "@/lib/game";
+import { KEY_PRESETS, matchPreset } from "@/lib/input";
+import { loadPlayerName, savePlayerName } from "@/lib/leaderboard";
+import { loadSettings } from "@/lib/settings";
+
+type OpponentChoice = "solo" | BotDifficulty | "online";
+
+const OPPONENT_CHOICES: { value: OpponentChoice; label: string }[] = [
+  { value: "solo", label: "Solo" },
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+  { value: "online", label: "LAN" },
+];
+
+// The game server normally runs on the machine serving the page
+const DEFAULT_SERVER_URL = `ws://${window.location.hostname || "localhost"}:8787`;
+
+export interface GameSetup {
+  mode: GameMode;
+  // Opponent strength, or null to play alone
+  botDifficulty: BotDifficulty | null;
+  // WebSocket URL of the game server when playing over the network
+  serverUrl: string | null;
+}
 
 interface NameInputModalProps {
-  onStart: (name: string) => void;
+  onStart: (name: string, setup: GameSetup) => void;
 }
 
 export const NameInputModal = ({ onStart }: NameInputModalProps) => {
-  const [name, setName] = useState("");
+  // Returning players find their name already filled in
+  const [name, setName] = useState(loadPlayerName);
+  const [opponents, setOpponents] = useState<OpponentChoice>("medium");
+  const [mode, setMode] = useState<GameMode>("classic");
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
+  const isOnline = opponents === "online";
+  const formRef = useRef<HTMLFormElement>(null);
+  const [moveKeys] = useState(() => {
+    const preset = matchPreset(loadSettings().keyBindings);
+    return preset ? KEY_PRESETS[preset].label : "your keys";
+  });
+  useGamepadMenu({ onConfirm: () => formRef.current?.requestSubmit() });
+  // Only offered where the browser supports installing and it has not happened yet
+  const { canInstall, install } = useInstallPrompt();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (name.trim()) {
-      onStart(name.trim());
-    }
+    if (!name.trim() || (isOnline && !serverUrl.trim())) return;
+
+    savePlayerName(name.trim());
+    onStart(name.trim(), {
+      // Server rooms only play the classic rules
+      mode: isOnline ? "classic" : mode,
+      botDifficulty: opponents === "solo" || opponents === "online" ? null : opponents,
+      serverUrl: isOnline ? serverUrl.trim() : null,
+    });
   };
 
   return (
@@ -44,7 +93,7 @@ export const NameInputModal = ({ onStart }: NameInputModalProps) => {
         </div>
 
         {/* Input form */}
-        <form onSubmit={handleSubmit} className="space-y-6">
+        <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-muted-foreground uppercase tracking-wider">
               Enter your name
@@ -60,21 +109,99 @@ export const NameInputModal = ({ onStart }: NameInputModalProps) => {
             />
           </div>
 
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-muted-foreground uppercase tracking-wider">
+              Opponents
+            </label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={opponents}
+              onValueChange={(value) => value && setOpponents(value as OpponentChoice)}
+              className="w-full"
+            >
+              {OPPONENT_CHOICES.map(({ value, label }) => (
+                <ToggleGroupItem key={value} value={value} className="flex-1 font-display uppercase tracking-wider">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          {!isOnline && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-muted-foreground uppercase tracking-wider">
+                Mode
+              </label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={mode}
+                onValueChange={(value) => value && setMode(value as GameMode)}
+                className="w-full"
+              >
+                {Object.entries(GAME_MODES).map(([value, { label }]) => (
+                  <ToggleGroupItem key={value} value={value} className="flex-1 font-display uppercase tracking-wider">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <p className="text-center text-xs text-muted-foreground">{GAME_MODES[mode].description}</p>
+            </div>
+          )}
+
+          {isOnline && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-muted-foreground uppercase tracking-wider">
+                Server address
+              </label>
+              <Input
+                type="text"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder={DEFAULT_SERVER_URL}
+                className="text-center"
+              />
+            </div>
+          )}
+
           <Button
             type="submit"
             variant="game"
             size="xl"
             className="w-full"
-            disabled={!name.trim()}
+            disabled={!name.trim() || (isOnline && !serverUrl.trim())}
           >
             Start Game
           </Button>
         </form>
 
+        <div className="mt-4 flex justify-center gap-2">
+          <Button asChild variant="ghost">
+            <Link to="/leaderboard">
+              <Trophy />
+              Leaderboard
+            </Link>
+          </Button>
+          <Button asChild variant="ghost">
+            <Link to="/settings">
+              <Settings />
+              Settings
+            </Link>
+          </Button>
+          {canInstall && (
+            <Button type="button" variant="ghost" onClick={install}>
+              <Download />
+              Install
+            </Button>
+          )}
+        </div>
+
         {/* Instructions */}
         <div className="mt-8 text-center text-sm text-muted-foreground space-y-1">
-          <p>Use <span className="text-primary font-semibold">Arrow Keys</span> to move</p>
+          <p>Use <span className="text-primary font-semibold">{moveKeys}</span> to move</p>
           <p>Capture territory by closing your trail</p>
+          <p>Cut other snakes' trails, but guard your own</p>
           <p>Don't hit the edges!</p>
         </div>
       </div>
@@ -1,268 +1,161 @@
-import { useEffect, useRef, useState, useCallback } from "react";
-import * as martinez from "martinez-polygon-clipping";
-
-// === TYPES ===
-type Direction = "UP" | "DOWN" | "LEFT" | "RIGHT";
-type Point = [number, number];
-type Polygon = Point[][];
-type MultiPolygon = Polygon[];
-
-interface GameState {
-  // Snake position (grid coordinates)
-  x: number;
-  y: number;
-  // Current movement direction
-  direction: Direction;
-  // Queued direction (for smooth input)
-  nextDirection: Direction;
-  // Trail points when outside territory
-  trail: Point[];
-  // All claimed territories as polygons
-  territories: MultiPolygon;
-  // Is snake currently outside its territory?
-  isOutside: boolean;
-  // Game status
-  isGameOver: boolean;
-}
+import { useEffect, useRef, useState } from "react";
+import { Pause } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import {
+  HISTORY_INTERVAL_MS,
+  selectSnakePercentage,
+  steerTowards,
+  type BotDifficulty,
+  type Direction,
+  type GameMode,
+  type Replay,
+  type RunResult,
+  type SnakeStats,
+  type TerritorySample,
+} from "@/lib/game";
+import { ARENA_SIZES, tickMsFor, touchThresholdFor, type GameSettings } from "@/lib/settings";
+import {
+  createDpadSource,
+  createJoystickSource,
+  createKeyboardSource,
+  createPointerSource,
+  createSwipeSource,
+  gamepadSource,
+  startInputSources,
+  type InputSource,
+} from "@/lib/input";
+import { createNetworkClient, type NetworkClient } from "@/lib/multiplayer/client";
+import { canvasToCells, COLORS, fitCellSize, renderGame, renderMinimap, type Viewport } from "./renderer";
+import { canRenderInWorker, startLocalGame, type LocalGame } from "./localGame";
+import { Minimap } from "./Minimap";
+import { TouchControls } from "./TouchControls";
 
 // === CONSTANTS ===
-const CELL_SIZE = 10;
-const SNAKE_SPEED = 100; // ms per grid move
-const INITIAL_TERRITORY_SIZE = 5; // 5x5 cells starting territory
-
-// Colors (matching design system)
-const COLORS = {
-  background: "#000000",
-  grid: "#141414",
-  snake: "#00E5CC", // hsl(174, 100%, 50%)
-  snakeGlow: "rgba(0, 229, 204, 0.5)",
-  territory: "#00E5CC",
-  trail: "rgba(0, 229, 204, 0.4)",
-  text: "#00E5CC",
-};
+const BOT_COUNT = 4;
 
 interface PaperSnakeGameProps {
   playerName: string;
-  onGameOver: (score: number) => void;
+  // Arena, speed and look; a server decides the arena and speed itself
+  settings: GameSettings;
+  // Win and lose rules for a local game; network games are always classic
+  mode?: GameMode;
+  // Opponent strength, or null to play alone
+  botDifficulty: BotDifficulty | null;
+  // WebSocket URL of a game server to join instead of playing locally
+  serverUrl?: string | null;
+  // Freezes a local game; network games keep running on the server
+  isPaused?: boolean;
+  // Asked for by Escape/P, the pause button, or the page losing focus
+  onPause?: () => void;
+  // The run was lost; local games also hand over a replay of it
+  onGameOver: (result: RunResult, replay: Replay | null) => void;
+  // The run was won (only local games can be)
+  onVictory: (result: RunResult, replay: Replay) => void;
 }
 
-export const PaperSnakeGame = ({ playerName, onGameOver }: PaperSnakeGameProps) => {
+export const PaperSnakeGame = ({
+  playerName,
+  settings,
+  mode = "classic",
+  botDifficulty,
+  serverUrl = null,
+  isPaused = false,
+  onPause,
+  onGameOver,
+  onVictory,
+}: PaperSnakeGameProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const gameStateRef = useRef<GameState | null>(null);
-  const lastMoveTimeRef = useRef<number>(0);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const touchControlsRef = useRef<HTMLDivElement>(null);
+  // The single-player run, wherever it is simulated
+  const localGameRef = useRef<LocalGame | null>(null);
+  // Connection to the game server when playing online
+  const networkRef = useRef<NetworkClient | null>(null);
   const animationFrameRef = useRef<number>(0);
+  // Read by the input handlers, which outlive a render
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+  // Mouse position in canvas pixels while steering by mouse
+  const aimRef = useRef<[number, number] | null>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-
-  // Calculate grid dimensions
-  const gridWidth = Math.floor(dimensions.width / CELL_SIZE);
-  const gridHeight = Math.floor(dimensions.height / CELL_SIZE);
-
-  // === INITIALIZE GAME STATE ===
-  const initGameState = useCallback((): GameState => {
-    const startX = Math.floor(gridWidth / 2);
-    const startY = Math.floor(gridHeight / 2);
-    const halfSize = Math.floor(INITIAL_TERRITORY_SIZE / 2);
-
-    // Create initial territory as a square polygon
-    const initialTerritory: Polygon = [[
-      [startX - halfSize, startY - halfSize],
-      [startX + halfSize + 1, startY - halfSize],
-      [startX + halfSize + 1, startY + halfSize + 1],
-      [startX - halfSize, startY + halfSize + 1],
-      [startX - halfSize, startY - halfSize], // Close the polygon
-    ]];
-
-    return {
-      x: startX,
-      y: startY,
-      direction: "RIGHT",
-      nextDirection: "RIGHT",
-      trail: [],
-      territories: [initialTerritory],
-      isOutside: false,
-      isGameOver: false,
-    };
-  }, [gridWidth, gridHeight]);
-
-  // === POINT IN POLYGON CHECK ===
-  const isPointInPolygon = (point: Point, polygon: Polygon): boolean => {
-    const [x, y] = point;
-    let inside = false;
-
-    for (const ring of polygon) {
-      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
-        const [xi, yi] = ring[i];
-        const [xj, yj] = ring[j];
-
-        if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
-          inside = !inside;
-        }
-      }
-    }
-
-    return inside;
-  };
-
-  // === CHECK IF POINT IS IN ANY TERRITORY ===
-  const isInTerritory = (point: Point, territories: MultiPolygon): boolean => {
-    return territories.some(polygon => isPointInPolygon(point, polygon));
-  };
-
-  // === MERGE NEW AREA WITH EXISTING TERRITORIES ===
-  const mergeWithTerritories = (
-    existingTerritories: MultiPolygon,
-    newPolygon: Polygon
-  ): MultiPolygon => {
-    if (existingTerritories.length === 0) {
-      return [newPolygon];
-    }
-
-    try {
-      // Union all existing territories first
-      let merged: MultiPolygon = existingTerritories;
-
-      // Then union with the new polygon
-      const result = martinez.union(
-        merged as martinez.Geometry,
-        [newPolygon] as martinez.Geometry
-      );
-
-      if (result && result.length > 0) {
-        return result as MultiPolygon;
-      }
-    } catch (e) {
-      console.warn("Polygon merge failed, using simple approach");
-    }
-
-    // Fallback: just add the new polygon
-    return [...existingTerritories, newPolygon];
-  };
-
-  // === CREATE POLYGON FROM TRAIL ===
-  const createPolygonFromTrail = (
-    trail: Point[],
-    territories: MultiPolygon,
-    currentPos: Point
-  ): Polygon | null => {
-    if (trail.length < 2) return null;
-
-    // Find where the trail connects back to territory
-    const trailWithEnd = [...trail, currentPos];
-    
-    // Create a closed polygon from the trail
-    // The trail goes from territory edge, around, and back to territory
-    const polygonPoints: Point[] = [...trailWithEnd];
-    
-    // Close the polygon by going back along the territory edge
-    // For simplicity, we'll create a polygon from just the trail points
-    if (polygonPoints.length < 3) return null;
-
-    // Ensure the polygon is closed
-    const firstPoint = polygonPoints[0];
-    const lastPoint = polygonPoints[polygonPoints.length - 1];
-    
-    if (firstPoint[0] !== lastPoint[0] || firstPoint[1] !== lastPoint[1]) {
-      polygonPoints.push([firstPoint[0], firstPoint[1]]);
-    }
-
-    return [polygonPoints];
-  };
-
-  // === HANDLE KEYBOARD INPUT ===
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!gameStateRef.current || gameStateRef.current.isGameOver) return;
-
-      const state = gameStateRef.current;
-      let newDir: Direction | null = null;
-
-      switch (e.key) {
-        case "ArrowUp":
-          if (state.direction !== "DOWN") newDir = "UP";
-          break;
-        case "ArrowDown":
-          if (state.direction !== "UP") newDir = "DOWN";
-          break;
-        case "ArrowLeft":
-          if (state.direction !== "RIGHT") newDir = "LEFT";
-          break;
-        case "ArrowRight":
-          if (state.direction !== "LEFT") newDir = "RIGHT";
-          break;
-      }
-
-      if (newDir) {
-        e.preventDefault();
-        state.nextDirection = newDir;
-      }
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, []);
-
-  // === HANDLE TOUCH/SWIPE INPUT ===
+  // A canvas handed over to the worker is sized by the worker alone. The
+  // canvases are keyed on this, so falling back to the main thread after
+  // the worker fails draws on fresh ones.
+  const [rendersInWorker, setRendersInWorker] = useState(() => !serverUrl && canRenderInWorker());
+
+  // === HANDLE INPUT ===
+  // Only local games can pause, since the server never waits for anyone
+  const canPause = !serverUrl && !!onPause;
   useEffect(() => {
+    // Swipes and the mouse are read off the canvas, which is replaced when
+    // the game leaves the worker
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    let touchStartX = 0;
-    let touchStartY = 0;
-    const SWIPE_THRESHOLD = 30; // Minimum swipe distance
+    const threshold = touchThresholdFor(settings);
+    const sources: InputSource[] = [
+      createKeyboardSource(settings.keyBindings),
+      gamepadSource,
+      createSwipeSource(canvas, threshold),
+    ];
+    const touchControls = touchControlsRef.current;
+    if (touchControls) {
+      sources.push(settings.touchControls === "dpad"
+        ? createDpadSource(touchControls)
+        : createJoystickSource(touchControls, threshold));
+    }
+    if (settings.mouseSteering) sources.push(createPointerSource(canvas));
 
-    const handleTouchStart = (e: TouchEvent) => {
-      e.preventDefault();
-      const touch = e.touches[0];
-      touchStartX = touch.clientX;
-      touchStartY = touch.clientY;
+    // Network games steer by the aim from their game loop below
+    const aimAt = (point: [number, number] | null) => {
+      aimRef.current = point;
+      localGameRef.current?.aimAt(point);
     };
 
-    const handleTouchEnd = (e: TouchEvent) => {
-      if (!gameStateRef.current || gameStateRef.current.isGameOver) return;
-      e.preventDefault();
-
-      const touch = e.changedTouches[0];
-      const deltaX = touch.clientX - touchStartX;
-      const deltaY = touch.clientY - touchStartY;
+    const queueDirection = (direction: Direction) => {
+      // A turn from anything but the mouse wins until the mouse moves again
+      aimAt(null);
+      if (networkRef.current) return networkRef.current.sendDirection(direction);
+      return localGameRef.current?.queueDirection(direction) ?? false;
+    };
 
-      // Only register swipe if it exceeds threshold
-      if (Math.abs(deltaX) < SWIPE_THRESHOLD && Math.abs(deltaY) < SWIPE_THRESHOLD) {
-        return;
+    return startInputSources(sources, (action) => {
+      switch (action.type) {
+        case "turn":
+          return queueDirection(action.direction);
+        case "aim":
+          aimAt(action.point);
+          return true;
+        case "pause":
+          if (!canPause || isPausedRef.current) return false;
+          onPause();
+          return true;
+        default:
+          return false;
       }
+    });
+  }, [canPause, onPause, settings, rendersInWorker]);
 
-      const state = gameStateRef.current;
-      let newDir: Direction | null = null;
-
-      // Determine swipe direction (favor the axis with larger movement)
-      if (Math.abs(deltaX) > Math.abs(deltaY)) {
-        // Horizontal swipe
-        if (deltaX > 0 && state.direction !== "LEFT") {
-          newDir = "RIGHT";
-        } else if (deltaX < 0 && state.direction !== "RIGHT") {
-          newDir = "LEFT";
-        }
-      } else {
-        // Vertical swipe
-        if (deltaY > 0 && state.direction !== "UP") {
-          newDir = "DOWN";
-        } else if (deltaY < 0 && state.direction !== "DOWN") {
-          newDir = "UP";
-        }
-      }
+  // A game in a hidden or unfocused page pauses itself
+  useEffect(() => {
+    if (!canPause) return;
 
-      if (newDir) {
-        state.nextDirection = newDir;
-      }
+    const handleVisibilityChange = () => {
+      if (document.hidden && !isPausedRef.current) onPause();
+    };
+    const handleBlur = () => {
+      if (!isPausedRef.current) onPause();
     };
 
-    canvas.addEventListener("touchstart", handleTouchStart, { passive: false });
-    canvas.addEventListener("touchend", handleTouchEnd, { passive: false });
-
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
     return () => {
-      canvas.removeEventListener("touchstart", handleTouchStart);
-      canvas.removeEventListener("touchend", handleTouchEnd);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
     };
-  }, [dimensions]);
+  }, [canPause, onPause]);
 
   // === HANDLE RESIZE ===
   useEffect(() => {
@@ -278,243 +171,203 @@ export const PaperSnakeGame = ({ playerName, onGameOver }: PaperSnakeGameProps)
     return () => window.removeEventListener("resize", updateDimensions);
   }, []);
 
-  // === MAIN GAME LOOP ===
+  // === LOCAL GAME ===
   useEffect(() => {
-    if (dimensions.width === 0 || dimensions.height === 0) return;
+    if (serverUrl) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    // Initialize game state
-    gameStateRef.current = initGameState();
-    lastMoveTimeRef.current = performance.now();
-
-    const gameLoop = (currentTime: number) => {
-      const state = gameStateRef.current;
-      if (!state || state.isGameOver) return;
-
-      // Calculate territory percentage for score
-      const totalCells = gridWidth * gridHeight;
-      let territoryCells = 0;
-      
-      // Count cells in territory (approximate)
-      for (const polygon of state.territories) {
-        for (const ring of polygon) {
-          // Simple bounding box area approximation
-          if (ring.length > 2) {
-            let minX = Infinity, maxX = -Infinity;
-            let minY = Infinity, maxY = -Infinity;
-            for (const [x, y] of ring) {
-              minX = Math.min(minX, x);
-              maxX = Math.max(maxX, x);
-              minY = Math.min(minY, y);
-              maxY = Math.max(maxY, y);
-            }
-            territoryCells += (maxX - minX) * (maxY - minY);
-          }
+    // The arena never depends on the window
+    const { gridSize } = ARENA_SIZES[settings.arenaSize];
+    const game = startLocalGame(
+      canvas,
+      minimapRef.current,
+      {
+        inWorker: rendersInWorker,
+        run: {
+          config: {
+            gridWidth: gridSize,
+            gridHeight: gridSize,
+            initialTerritorySize: settings.startingTerritory,
+            victoryPercentage: settings.victoryPercentage,
+            playerName,
+            ...(botDifficulty && { botCount: BOT_COUNT, botDifficulty }),
+          },
+          mode,
+          baseTickMs: tickMsFor(settings),
+        },
+        render: { mode, playerColor: settings.playerColor, showGrid: settings.showGrid },
+        width: window.innerWidth,
+        height: window.innerHeight,
+      },
+      ({ result, replay }) => {
+        if (result.outcome.won) {
+          onVictory(result, replay);
+        } else {
+          onGameOver(result, replay);
         }
+      },
+      () => {
+        toast.error("The game ran into a problem and had to restart");
+        setRendersInWorker(false);
       }
+    );
+    game.setPaused(isPausedRef.current);
+    localGameRef.current = game;
 
-      // === UPDATE LOGIC ===
-      if (currentTime - lastMoveTimeRef.current >= SNAKE_SPEED) {
-        lastMoveTimeRef.current = currentTime;
-
-        // Apply queued direction
-        state.direction = state.nextDirection;
-
-        // Calculate new position
-        let newX = state.x;
-        let newY = state.y;
-
-        switch (state.direction) {
-          case "UP": newY--; break;
-          case "DOWN": newY++; break;
-          case "LEFT": newX--; break;
-          case "RIGHT": newX++; break;
-        }
-
-        // Check wall collision (game over)
-        if (newX < 0 || newX >= gridWidth || newY < 0 || newY >= gridHeight) {
-          state.isGameOver = true;
-          onGameOver((territoryCells / totalCells) * 100);
-          return;
-        }
-
-        // Check if we hit our own trail (game over)
-        const hitTrail = state.trail.some(([tx, ty]) => tx === newX && ty === newY);
-        if (hitTrail) {
-          state.isGameOver = true;
-          onGameOver((territoryCells / totalCells) * 100);
-          return;
-        }
-
-        const wasOutside = state.isOutside;
-        const currentPos: Point = [state.x, state.y];
-        const newPos: Point = [newX, newY];
-        const nowInTerritory = isInTerritory(newPos, state.territories);
+    return () => {
+      game.stop();
+      localGameRef.current = null;
+    };
+  }, [settings, mode, onGameOver, onVictory, playerName, botDifficulty, serverUrl, rendersInWorker]);
 
-        // Track trail when outside territory
-        if (state.isOutside && !nowInTerritory) {
-          // Still outside, add to trail
-          if (state.trail.length === 0 || 
-              state.trail[state.trail.length - 1][0] !== state.x ||
-              state.trail[state.trail.length - 1][1] !== state.y) {
-            state.trail.push(currentPos);
-          }
-        } else if (!state.isOutside && !nowInTerritory) {
-          // Just left territory, start trail
-          state.trail = [currentPos];
-          state.isOutside = true;
-        } else if (wasOutside && nowInTerritory && state.trail.length > 0) {
-          // Returned to territory! Complete the area
-          state.trail.push(currentPos);
-          state.trail.push(newPos);
+  useEffect(() => {
+    localGameRef.current?.setPaused(isPaused);
+  }, [isPaused]);
 
-          // Create and merge the new polygon
-          const newPolygon = createPolygonFromTrail(state.trail, state.territories, newPos);
-          if (newPolygon) {
-            state.territories = mergeWithTerritories(state.territories, newPolygon);
-          }
+  useEffect(() => {
+    if (dimensions.width > 0) localGameRef.current?.resize(dimensions.width, dimensions.height);
+  }, [dimensions]);
 
-          // Reset trail
-          state.trail = [];
-          state.isOutside = false;
-        }
+  // === NETWORK GAME LOOP ===
+  // The server runs the simulation; we only render its state. Losing the
+  // connection ends the run just like dying does.
+  useEffect(() => {
+    if (!serverUrl) return;
 
-        if (nowInTerritory) {
-          state.isOutside = false;
-        }
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-        // Update position
-        state.x = newX;
-        state.y = newY;
-      }
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
 
-      // === RENDER ===
-      // Clear canvas
-      ctx.fillStyle = COLORS.background;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    let lastScore = 0;
+    let peakScore = 0;
+    let lastKills = 0;
+    let lastStats: SnakeStats | null = null;
+    // Last frame's view, to place the mouse in the arena
+    let lastViewport: Viewport | null = null;
+    let startedAt: number | null = null;
+    const history: TerritorySample[] = [];
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      cancelAnimationFrame(animationFrameRef.current);
+      const durationMs = startedAt === null ? 0 : performance.now() - startedAt;
+      history.push({ timeMs: durationMs, percentage: lastScore });
+      onGameOver({
+        mode: "classic",
+        outcome: { reason: "died", won: false },
+        score: lastScore,
+        peakScore,
+        kills: lastKills,
+        durationMs,
+        stats: lastStats,
+        history,
+      }, null);
+    };
 
-      // Draw subtle grid
-      ctx.strokeStyle = COLORS.grid;
-      ctx.lineWidth = 0.5;
-      for (let x = 0; x <= gridWidth; x++) {
-        ctx.beginPath();
-        ctx.moveTo(x * CELL_SIZE, 0);
-        ctx.lineTo(x * CELL_SIZE, canvas.height);
-        ctx.stroke();
-      }
-      for (let y = 0; y <= gridHeight; y++) {
-        ctx.beginPath();
-        ctx.moveTo(0, y * CELL_SIZE);
-        ctx.lineTo(canvas.width, y * CELL_SIZE);
-        ctx.stroke();
-      }
+    const client = createNetworkClient({
+      url: serverUrl,
+      name: playerName,
+      onStatus: (status) => {
+        if (status === "closed") finish();
+      },
+    });
+    networkRef.current = client;
 
-      // Draw territories (solid color)
-      ctx.fillStyle = COLORS.territory;
-      for (const polygon of state.territories) {
-        for (const ring of polygon) {
-          if (ring.length < 3) continue;
-          ctx.beginPath();
-          ctx.moveTo(ring[0][0] * CELL_SIZE, ring[0][1] * CELL_SIZE);
-          for (let i = 1; i < ring.length; i++) {
-            ctx.lineTo(ring[i][0] * CELL_SIZE, ring[i][1] * CELL_SIZE);
-          }
-          ctx.closePath();
-          ctx.fill();
+    const gameLoop = (currentTime: number) => {
+      const frame = client.getFrame(currentTime);
+      const playerId = client.getPlayerId();
+
+      if (!frame || playerId === null) {
+        ctx.fillStyle = COLORS.background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = COLORS.text;
+        ctx.font = "bold 16px Orbitron, sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText("CONNECTING...", canvas.width / 2, canvas.height / 2);
+      } else {
+        const me = frame.state.snakes.find(snake => snake.id === playerId);
+        // Keep the final stats, which say what killed us
+        if (me) lastStats = me.stats;
+        if (!me || !me.isAlive) {
+          finish();
+          return;
         }
-      }
-
-      // Draw trail (semi-transparent)
-      if (state.trail.length > 0) {
-        ctx.strokeStyle = COLORS.trail;
-        ctx.lineWidth = CELL_SIZE * 0.8;
-        ctx.lineCap = "round";
-        ctx.lineJoin = "round";
-        ctx.beginPath();
-        ctx.moveTo(
-          state.trail[0][0] * CELL_SIZE + CELL_SIZE / 2,
-          state.trail[0][1] * CELL_SIZE + CELL_SIZE / 2
-        );
-        for (let i = 1; i < state.trail.length; i++) {
-          ctx.lineTo(
-            state.trail[i][0] * CELL_SIZE + CELL_SIZE / 2,
-            state.trail[i][1] * CELL_SIZE + CELL_SIZE / 2
-          );
+        startedAt ??= currentTime;
+        lastScore = selectSnakePercentage(frame.state, me);
+        peakScore = Math.max(peakScore, lastScore);
+        lastKills = me.kills;
+        const timeMs = currentTime - startedAt;
+        if (history.length === 0 || timeMs - history[history.length - 1].timeMs >= HISTORY_INTERVAL_MS) {
+          history.push({ timeMs, percentage: lastScore });
         }
-        // Connect to current position
-        ctx.lineTo(
-          state.x * CELL_SIZE + CELL_SIZE / 2,
-          state.y * CELL_SIZE + CELL_SIZE / 2
-        );
-        ctx.stroke();
-
-        // Draw trail fill (polygon area preview)
-        ctx.fillStyle = COLORS.trail;
-        ctx.beginPath();
-        ctx.moveTo(state.trail[0][0] * CELL_SIZE, state.trail[0][1] * CELL_SIZE);
-        for (let i = 1; i < state.trail.length; i++) {
-          ctx.lineTo(state.trail[i][0] * CELL_SIZE, state.trail[i][1] * CELL_SIZE);
+        // Mouse steering sends a turn whenever the aim calls for one; the
+        // client drops any it has already sent
+        const aim = aimRef.current && lastViewport && canvasToCells(lastViewport, canvas, aimRef.current);
+        const steered = aim && steerTowards(me, aim);
+        if (steered) client.sendDirection(steered);
+        const viewport = renderGame(ctx, frame.state, {
+          cellSize: fitCellSize(canvas),
+          followPlayer: true,
+          playerId,
+          playerColor: settings.playerColor,
+          showGrid: settings.showGrid,
+          previous: frame.previous,
+          alpha: frame.alpha,
+          aim,
+        });
+        lastViewport = viewport;
+        const minimapCtx = minimapRef.current?.getContext("2d");
+        if (minimapCtx) {
+          renderMinimap(minimapCtx, frame.state, { playerId, playerColor: settings.playerColor, viewport });
         }
-        ctx.lineTo(state.x * CELL_SIZE, state.y * CELL_SIZE);
-        ctx.closePath();
-        ctx.fill();
       }
 
-      // Draw snake head with glow
-      const headX = state.x * CELL_SIZE + CELL_SIZE / 2;
-      const headY = state.y * CELL_SIZE + CELL_SIZE / 2;
-
-      // Glow effect
-      ctx.shadowColor = COLORS.snakeGlow;
-      ctx.shadowBlur = 15;
-
-      ctx.fillStyle = COLORS.snake;
-      ctx.beginPath();
-      ctx.arc(headX, headY, CELL_SIZE * 0.6, 0, Math.PI * 2);
-      ctx.fill();
-
-      // Reset shadow
-      ctx.shadowBlur = 0;
-
-      // Draw player name above snake
-      ctx.fillStyle = COLORS.text;
-      ctx.font = "bold 12px Rajdhani, sans-serif";
-      ctx.textAlign = "center";
-      ctx.textBaseline = "bottom";
-      ctx.fillText(playerName, headX, headY - CELL_SIZE);
-
-      // Draw HUD
-      const score = (territoryCells / totalCells) * 100;
-      ctx.fillStyle = COLORS.text;
-      ctx.font = "bold 16px Orbitron, sans-serif";
-      ctx.textAlign = "left";
-      ctx.textBaseline = "top";
-      ctx.fillText(`${score.toFixed(1)}%`, 20, 20);
-
-      // Continue loop
       animationFrameRef.current = requestAnimationFrame(gameLoop);
     };
 
     animationFrameRef.current = requestAnimationFrame(gameLoop);
 
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      finished = true;
+      cancelAnimationFrame(animationFrameRef.current);
+      networkRef.current = null;
+      client.close();
     };
-  }, [dimensions, gridWidth, gridHeight, initGameState, onGameOver, playerName]);
+  }, [serverUrl, playerName, settings, onGameOver]);
+
+  // Controls and the pause button sit under the thumb, the minimap opposite
+  const controlsSide = settings.handedness;
 
   return (
-    <canvas
-      ref={canvasRef}
-      width={dimensions.width}
-      height={dimensions.height}
-      className="fixed inset-0 touch-none"
-    />
+    <>
+      <canvas
+        key={rendersInWorker ? "worker" : "page"}
+        ref={canvasRef}
+        width={rendersInWorker ? undefined : dimensions.width}
+        height={rendersInWorker ? undefined : dimensions.height}
+        className={cn("fixed inset-0 touch-none", settings.mouseSteering && "cursor-crosshair")}
+      />
+      {settings.showMinimap && <Minimap key={rendersInWorker ? "worker" : "page"} ref={minimapRef} side={controlsSide === "left" ? "right" : "left"} />}
+      {settings.touchControls !== "swipe" && (
+        <TouchControls ref={touchControlsRef} kind={settings.touchControls} side={controlsSide} />
+      )}
+      {canPause && !isPaused && (
+        <Button
+          onClick={onPause}
+          variant="ghost"
+          size="icon"
+          className={cn("fixed bottom-4 z-10", controlsSide === "left" ? "left-4" : "right-4")}
+          aria-label="Pause"
+        >
+          <Pause />
+        </Button>
+      )}
+    </>
   );
 };
@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useGamepadMenu } from "@/hooks/use-gamepad";
+import { normalizeKey, PAUSE_KEYS } from "@/lib/input";
+
+interface PauseOverlayProps {
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+}
+
+export const PauseOverlay = ({ onResume, onRestart, onQuit }: PauseOverlayProps) => {
+  // The same keys that paused the game resume it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (PAUSE_KEYS.includes(normalizeKey(e.key))) {
+        e.preventDefault();
+        onResume();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onResume]);
+  useGamepadMenu({ onConfirm: onResume, onPause: onResume });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="flex flex-col items-center gap-4 px-6 text-center">
+        <h2 className="mb-2 text-5xl md:text-6xl font-display font-black text-primary text-glow tracking-wider">
+          PAUSED
+        </h2>
+
+        <Button onClick={onResume} variant="game" size="xl" autoFocus>
+          Resume
+        </Button>
+        <div className="flex items-center justify-center gap-3">
+          <Button onClick={onRestart} variant="neon">
+            Restart
+          </Button>
+          <Button onClick={onQuit} variant="ghost">
+            Quit to Menu
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Press Esc or P (Start on a controller) to resume
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Pause, Play, StepBack, StepForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { createReplayPlayer, type Replay } from "@/lib/game";
+import { formatDuration } from "@/lib/utils";
+import { renderGame } from "./renderer";
+
+// === CONSTANTS ===
+const CELL_SIZE = 10;
+const SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  replay: Replay;
+}
+
+export const ReplayViewer = ({ replay }: ReplayViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const player = useMemo(() => createReplayPlayer(replay), [replay]);
+  // Fractional playback position in ticks, advanced by the animation loop
+  const positionRef = useRef(0);
+  const [tick, setTick] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const { gridWidth, gridHeight } = replay.config;
+
+  const seek = useCallback((target: number) => {
+    positionRef.current = Math.max(0, Math.min(player.ticks, target));
+    setTick(Math.floor(positionRef.current));
+  }, [player]);
+
+  const stepBy = useCallback((delta: number) => {
+    setIsPlaying(false);
+    seek(Math.round(positionRef.current) + delta);
+  }, [seek]);
+
+  // Restart from the beginning whenever a new replay is loaded
+  useEffect(() => {
+    seek(0);
+    setIsPlaying(true);
+  }, [seek]);
+
+  // === HANDLE KEYBOARD SHORTCUTS ===
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+
+      switch (e.key) {
+        case " ":
+          e.preventDefault();
+          setIsPlaying((playing) => !playing);
+          break;
+        case "ArrowLeft":
+          e.preventDefault();
+          stepBy(-1);
+          break;
+        case "ArrowRight":
+          e.preventDefault();
+          stepBy(1);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [stepBy]);
+
+  // === PLAYBACK LOOP ===
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    let animationFrame = 0;
+    let lastTime = performance.now();
+
+    const loop = (currentTime: number) => {
+      if (isPlaying) {
+        // Ticks last as long as they did in the recorded run
+        positionRef.current += ((currentTime - lastTime) / player.tickMsAt(positionRef.current)) * speed;
+        if (positionRef.current >= player.ticks) {
+          positionRef.current = player.ticks;
+          setIsPlaying(false);
+        }
+        setTick(Math.floor(positionRef.current));
+      }
+      lastTime = currentTime;
+
+      const base = Math.floor(positionRef.current);
+      const alpha = positionRef.current - base;
+      if (alpha > 0) {
+        renderGame(ctx, player.stateAt(base + 1), {
+          cellSize: CELL_SIZE,
+          previous: player.stateAt(base),
+          alpha,
+        });
+      } else {
+        renderGame(ctx, player.stateAt(base), { cellSize: CELL_SIZE });
+      }
+
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    animationFrame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [player, isPlaying, speed]);
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <canvas
+        ref={canvasRef}
+        width={gridWidth * CELL_SIZE}
+        height={gridHeight * CELL_SIZE}
+        className="max-w-full max-h-[calc(100vh-12rem)] object-contain border border-border rounded-lg"
+      />
+
+      <div className="flex flex-col gap-3 w-full max-w-3xl px-4">
+        <Slider
+          value={[tick]}
+          min={0}
+          max={player.ticks}
+          step={1}
+          onValueChange={([value]) => {
+            setIsPlaying(false);
+            seek(value);
+          }}
+        />
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => stepBy(-1)} aria-label="Previous tick">
+              <StepBack />
+            </Button>
+            <Button
+              variant="neon"
+              size="icon"
+              onClick={() => {
+                if (tick >= player.ticks) seek(0);
+                setIsPlaying((playing) => !playing);
+              }}
+              aria-label={isPlaying ? "Pause" : "Play"}
+            >
+              {isPlaying ? <Pause /> : <Play />}
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => stepBy(1)} aria-label="Next tick">
+              <StepForward />
+            </Button>
+          </div>
+
+          <p className="font-display text-sm text-muted-foreground tabular-nums">
+            {formatDuration(player.timeAt(tick))} / {formatDuration(player.timeAt(player.ticks))}
+            <span className="ml-2 text-xs">tick {tick}</span>
+          </p>
+
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={String(speed)}
+            onValueChange={(value) => value && setSpeed(Number(value))}
+          >
+            {SPEEDS.map((value) => (
+              <ToggleGroupItem key={value} value={String(value)} className="font-display text-xs">
+                {value}x
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { Download, Film, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useGamepadMenu } from "@/hooks/use-gamepad";
+import type { DeathCause, RunResult } from "@/lib/game";
+import type { RankedEntry } from "@/lib/leaderboard";
+import { formatDuration } from "@/lib/utils";
+import { LeaderboardTable } from "./LeaderboardTable";
+import { TerritoryChart } from "./TerritoryChart";
+
+const DEATH_CAUSES: Record<DeathCause, string> = {
+  wall: "Hit the wall",
+  "own-trail": "Crossed own trail",
+  opponent: "Taken out by an opponent",
+};
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div>
+    <p className="text-xs text-muted-foreground uppercase tracking-wider">{label}</p>
+    <p className="text-xl font-display font-bold tabular-nums">{value}</p>
+  </div>
+);
+
+export interface RunSummaryProps {
+  result: RunResult;
+  onRestart: () => void;
+  // Only offered when the run was recorded
+  onWatchReplay?: () => void;
+  onExportReplay?: () => void;
+  // Top of the local leaderboard, including the run that just ended
+  standings?: RankedEntry[];
+  highlightId?: string | null;
+  onShowLeaderboard?: () => void;
+}
+
+// Stats, standings and follow-up actions shared by the end-of-run overlays
+export const RunSummary = ({
+  result,
+  onRestart,
+  onWatchReplay,
+  onExportReplay,
+  standings = [],
+  highlightId = null,
+  onShowLeaderboard,
+}: RunSummaryProps) => {
+  const { mode, score, peakScore, kills, durationMs, stats, history } = result;
+  useGamepadMenu({ onConfirm: onRestart });
+
+  return (
+    <>
+      <div className="space-y-2">
+        <p className="text-lg text-muted-foreground uppercase tracking-wider">
+          Territory Captured
+        </p>
+        <p className="text-4xl font-display font-bold text-primary text-glow">
+          {score.toFixed(1)}%
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-x-6 gap-y-4">
+        <Stat label={mode === "survival" ? "Survived" : "Time"} value={formatDuration(durationMs)} />
+        <Stat label="Peak" value={`${peakScore.toFixed(1)}%`} />
+        <Stat label="Kills" value={kills} />
+        {stats && (
+          <>
+            <Stat label="Distance" value={stats.distance} />
+            <Stat label="Captures" value={stats.captures} />
+            <Stat label="Best capture" value={stats.largestCapture} />
+          </>
+        )}
+      </div>
+
+      {stats?.causeOfDeath && (
+        <p className="text-sm text-destructive uppercase tracking-wider">{DEATH_CAUSES[stats.causeOfDeath]}</p>
+      )}
+
+      {history.length > 1 && (
+        <div className="rounded-lg border border-border bg-card/60 p-2">
+          <TerritoryChart history={history} />
+        </div>
+      )}
+
+      {standings.length > 0 && (
+        <div className="rounded-lg border border-border bg-card/60 text-left">
+          <LeaderboardTable rows={standings} highlightId={highlightId} compact />
+        </div>
+      )}
+
+      <Button
+        onClick={onRestart}
+        variant="game"
+        size="xl"
+        className="mt-4"
+      >
+        Play Again
+      </Button>
+
+      {(onWatchReplay || onExportReplay || onShowLeaderboard) && (
+        <div className="flex items-center justify-center gap-3">
+          {onWatchReplay && (
+            <Button onClick={onWatchReplay} variant="neon">
+              <Film />
+              Watch Replay
+            </Button>
+          )}
+          {onExportReplay && (
+            <Button onClick={onExportReplay} variant="ghost">
+              <Download />
+              Export
+            </Button>
+          )}
+          {onShowLeaderboard && (
+            <Button onClick={onShowLeaderboard} variant="ghost">
+              <Trophy />
+              Leaderboard
+            </Button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
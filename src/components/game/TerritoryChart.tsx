@@ -0,0 +1,45 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { TerritorySample } from "@/lib/game";
+import { formatDuration } from "@/lib/utils";
+
+const chartConfig = {
+  percentage: { label: "Territory", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface TerritoryChartProps {
+  history: TerritorySample[];
+}
+
+// Share of the arena held over the course of a run
+export const TerritoryChart = ({ history }: TerritoryChartProps) => {
+  const data = history.map(({ timeMs, percentage }) => ({
+    time: formatDuration(timeMs),
+    percentage: Number(percentage.toFixed(1)),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+      <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <defs>
+          <linearGradient id="territoryFill" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="var(--color-percentage)" stopOpacity={0.6} />
+            <stop offset="95%" stopColor="var(--color-percentage)" stopOpacity={0.05} />
+          </linearGradient>
+        </defs>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis width={36} tickLine={false} axisLine={false} tickFormatter={(value) => `${value}%`} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Area
+          dataKey="percentage"
+          type="monotone"
+          stroke="var(--color-percentage)"
+          strokeWidth={2}
+          fill="url(#territoryFill)"
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,60 @@
+import { forwardRef } from "react";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import type { Direction } from "@/lib/game";
+import { cn } from "@/lib/utils";
+
+// Side length in CSS pixels
+const CONTROL_SIZE = 144;
+
+const DPAD_BUTTONS: { direction: Direction; icon: typeof ChevronUp; area: string }[] = [
+  { direction: "UP", icon: ChevronUp, area: "col-start-2 row-start-1" },
+  { direction: "LEFT", icon: ChevronLeft, area: "col-start-1 row-start-2" },
+  { direction: "RIGHT", icon: ChevronRight, area: "col-start-3 row-start-2" },
+  { direction: "DOWN", icon: ChevronDown, area: "col-start-2 row-start-3" },
+];
+
+interface TouchControlsProps {
+  kind: "dpad" | "joystick";
+  side: "left" | "right";
+}
+
+// On-screen steering drawn over the game. Only looks the part: the input
+// source the game attaches to this element (createDpadSource or
+// createJoystickSource) does the steering and marks what is pressed.
+export const TouchControls = forwardRef<HTMLDivElement, TouchControlsProps>(({ kind, side }, ref) => (
+  <div
+    ref={ref}
+    aria-hidden
+    style={{ width: CONTROL_SIZE, height: CONTROL_SIZE }}
+    className={cn(
+      "fixed bottom-20 z-10 touch-none select-none",
+      side === "left" ? "left-4" : "right-4",
+      kind === "dpad" ? "grid grid-cols-3 grid-rows-3 gap-1" : "flex items-center justify-center"
+    )}
+  >
+    {kind === "dpad" ? (
+      DPAD_BUTTONS.map(({ direction, icon: Icon, area }) => (
+        <div
+          key={direction}
+          data-direction={direction}
+          className={cn(
+            "flex items-center justify-center rounded-md border border-primary/40 bg-background/60 text-primary",
+            "data-[pressed]:bg-primary/30",
+            area
+          )}
+        >
+          <Icon className="size-6" />
+        </div>
+      ))
+    ) : (
+      <div className="flex size-full items-center justify-center rounded-full border border-primary/40 bg-background/60">
+        <div
+          className="size-14 rounded-full bg-primary/50 shadow-[0_0_12px_hsl(var(--primary)/0.6)]"
+          style={{ transform: "translate(var(--knob-x, 0px), var(--knob-y, 0px))" }}
+        />
+      </div>
+    )}
+  </div>
+));
+
+TouchControls.displayName = "TouchControls";
@@ -0,0 +1,32 @@
+import { Crown } from "lucide-react";
+import { GAME_MODES, RACE_TARGET_PERCENTAGE, type RunEndReason } from "@/lib/game";
+import { RunSummary, type RunSummaryProps } from "./RunSummary";
+
+// Ways a run can be won
+const SUBTITLES: Partial<Record<RunEndReason, string>> = {
+  conquered: "The arena is yours",
+  "target-reached": `First to ${RACE_TARGET_PERCENTAGE}%`,
+  "time-up": "Most territory when time ran out",
+};
+
+export const VictoryOverlay = (props: RunSummaryProps) => {
+  const { mode, outcome } = props.result;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="text-center space-y-6 px-6 w-full max-w-lg max-h-full overflow-y-auto py-6">
+        <div className="space-y-2">
+          <Crown className="mx-auto size-12 text-primary drop-shadow-[0_0_12px_hsl(var(--primary)/0.8)]" />
+          <h2 className="text-5xl md:text-6xl font-display font-black tracking-wider text-transparent bg-clip-text bg-gradient-to-r from-primary to-secondary">
+            VICTORY
+          </h2>
+          <p className="text-sm text-muted-foreground uppercase tracking-widest">
+            {SUBTITLES[outcome.reason]} · {GAME_MODES[mode].label} mode
+          </p>
+        </div>
+
+        <RunSummary {...props} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { createLocalRun, type Direction, type LocalRunOptions, type RunEnding } from "@/lib/game";
+import { canvasToCells, renderLocalFrame, type LocalFrameOptions } from "./renderer";
+import type { FromWorkerMessage, ToWorkerMessage } from "./simulationProtocol";
+
+export interface LocalGameOptions {
+  // Simulate and draw in a worker, where the browser allows it (see
+  // canRenderInWorker)
+  inWorker: boolean;
+  run: LocalRunOptions;
+  render: LocalFrameOptions;
+  // Starting size of the game canvas
+  width: number;
+  height: number;
+}
+
+export interface LocalGame {
+  queueDirection: (direction: Direction) => boolean;
+  // Steers toward a point on the canvas, in pixels, until cleared with null
+  aimAt: (point: [number, number] | null) => void;
+  setPaused: (isPaused: boolean) => void;
+  // The page's size changed
+  resize: (width: number, height: number) => void;
+  stop: () => void;
+}
+
+// Drawing from a worker needs canvases that can hand their drawing over.
+// Once handed over, a canvas' size can only be changed through the worker,
+// so the page must not size it itself (see LocalGame.resize).
+export const canRenderInWorker = () =>
+  typeof Worker !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
+// === WORKER ===
+const startInWorker = (
+  canvas: HTMLCanvasElement,
+  minimap: HTMLCanvasElement | null,
+  { run, render, width, height }: LocalGameOptions,
+  onEnd: (ending: RunEnding) => void,
+  onWorkerFailed: () => void
+): LocalGame => {
+  const worker = new Worker(new URL("./simulation.worker.ts", import.meta.url), { type: "module" });
+  const send = (message: ToWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  let isPaused = false;
+  // Whether the player was alive after the worker's latest step
+  let isAlive = false;
+
+  worker.addEventListener("message", (event: MessageEvent<FromWorkerMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "snapshot":
+        isAlive = message.isAlive;
+        break;
+      case "ended":
+        onEnd(message.ending);
+        break;
+    }
+  });
+
+  // The run and the canvases handed over are lost with the worker, so all
+  // that is left is to stop it and let the page start over
+  let hasFailed = false;
+  const fail = (reason: string) => {
+    if (hasFailed) return;
+    hasFailed = true;
+    console.error("Simulation worker failed:", reason);
+    worker.terminate();
+    onWorkerFailed();
+  };
+  worker.addEventListener("error", (event) => fail(event.message));
+  worker.addEventListener("messageerror", () => fail("unreadable message"));
+
+  canvas.width = width;
+  canvas.height = height;
+  const offscreen = canvas.transferControlToOffscreen();
+  const offscreenMinimap = minimap?.transferControlToOffscreen() ?? null;
+  send(
+    { type: "start", run, render, canvas: offscreen, minimap: offscreenMinimap },
+    offscreenMinimap ? [offscreen, offscreenMinimap] : [offscreen]
+  );
+
+  return {
+    // The worker's turn queue has the final say on which turns are kept;
+    // the page only needs to know whether the key went to the game
+    queueDirection: (direction) => {
+      if (isPaused || !isAlive) return false;
+      send({ type: "input", direction });
+      return true;
+    },
+    aimAt: (point) => send({ type: "aim", point }),
+    setPaused: (paused) => {
+      isPaused = paused;
+      send({ type: "pause", isPaused: paused });
+    },
+    resize: (newWidth, newHeight) => send({ type: "resize", width: newWidth, height: newHeight }),
+    stop: () => worker.terminate(),
+  };
+};
+
+// === MAIN THREAD ===
+const startOnMainThread = (
+  canvas: HTMLCanvasElement,
+  minimap: HTMLCanvasElement | null,
+  { run: runOptions, render }: LocalGameOptions,
+  onEnd: (ending: RunEnding) => void
+): LocalGame => {
+  const ctx = canvas.getContext("2d");
+  const minimapCtx = minimap?.getContext("2d") ?? null;
+  const run = createLocalRun(runOptions);
+  let isPaused = false;
+  let animationFrame = 0;
+  let pointer: [number, number] | null = null;
+
+  const loop = (now: number) => {
+    const { frame, ending } = run.advance(now, isPaused);
+    if (ending) {
+      onEnd(ending);
+      return;
+    }
+    const viewport = renderLocalFrame(ctx, minimapCtx, frame, render);
+    run.aimAt(pointer && canvasToCells(viewport, canvas, pointer));
+    animationFrame = requestAnimationFrame(loop);
+  };
+  animationFrame = requestAnimationFrame(loop);
+
+  return {
+    queueDirection: (direction) => !isPaused && run.queueDirection(direction),
+    aimAt: (point) => {
+      pointer = point;
+    },
+    setPaused: (paused) => {
+      isPaused = paused;
+    },
+    // The page sizes the canvas itself
+    resize: () => {},
+    stop: () => cancelAnimationFrame(animationFrame),
+  };
+};
+
+// === START A LOCAL GAME ===
+// `onEnd` is called once, when the run is over. If the worker fails,
+// `onWorkerFailed` is called instead; its canvases can no longer be drawn
+// on from the page, so the game has to start again on new ones.
+export const startLocalGame = (
+  canvas: HTMLCanvasElement,
+  minimap: HTMLCanvasElement | null,
+  options: LocalGameOptions,
+  onEnd: (ending: RunEnding) => void,
+  onWorkerFailed: () => void
+): LocalGame =>
+  options.inWorker
+    ? startInWorker(canvas, minimap, options, onEnd, onWorkerFailed)
+    : startOnMainThread(canvas, minimap, options, onEnd);
@@ -0,0 +1,645 @@
+import {
+  NO_OWNER,
+  PLAYER_ID,
+  RACE_TARGET_PERCENTAGE,
+  selectAliveSnakes,
+  selectPlayer,
+  selectSnakePercentage,
+  selectTerritoryPercentage,
+  TIMED_DURATION_MS,
+  trailOf,
+  type GameMode,
+  type GameState,
+  type LocalFrame,
+  type MultiPolygon,
+  type Point,
+  type Snake,
+} from "@/lib/game";
+
+// Visible canvases on the page, or handed over to the simulation worker
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Colors (matching design system)
+export const COLORS = {
+  background: "#000000",
+  grid: "#141414",
+  border: "rgba(0, 229, 204, 0.35)",
+  territoryBorder: "rgba(255, 255, 255, 0.45)",
+  text: "#00E5CC",
+};
+
+// Per-snake colors, indexed by owner id (the player is id 1)
+export const SNAKE_PALETTE = [
+  { snake: "#00E5CC", glow: "rgba(0, 229, 204, 0.5)", trail: "rgba(0, 229, 204, 0.4)" }, // hsl(174, 100%, 50%)
+  { snake: "#B44DFF", glow: "rgba(180, 77, 255, 0.5)", trail: "rgba(180, 77, 255, 0.4)" }, // hsl(280, 100%, 60%)
+  { snake: "#FFC21A", glow: "rgba(255, 194, 26, 0.5)", trail: "rgba(255, 194, 26, 0.4)" }, // hsl(45, 100%, 55%)
+  { snake: "#F0443A", glow: "rgba(240, 68, 58, 0.5)", trail: "rgba(240, 68, 58, 0.4)" },
+  { snake: "#3B82F6", glow: "rgba(59, 130, 246, 0.5)", trail: "rgba(59, 130, 246, 0.4)" },
+  { snake: "#4ADE80", glow: "rgba(74, 222, 128, 0.5)", trail: "rgba(74, 222, 128, 0.4)" },
+  { snake: "#FF7AC6", glow: "rgba(255, 122, 198, 0.5)", trail: "rgba(255, 122, 198, 0.4)" },
+  { snake: "#FF8A00", glow: "rgba(255, 138, 0, 0.5)", trail: "rgba(255, 138, 0, 0.4)" },
+];
+
+// The player's chosen colour trades places with the snake that would have had it
+export const snakeColors = (snake: Snake, playerId = PLAYER_ID, playerColor = 0) => {
+  const index = (snake.id - 1) % SNAKE_PALETTE.length;
+  const chosen = playerColor % SNAKE_PALETTE.length;
+  if (snake.id === playerId) return SNAKE_PALETTE[chosen];
+  if (index === chosen) return SNAKE_PALETTE[(playerId - 1) % SNAKE_PALETTE.length];
+  return SNAKE_PALETTE[index];
+};
+
+type SnakeColors = ReturnType<typeof snakeColors>;
+
+export interface RenderOptions {
+  cellSize: number;
+  // Snake whose score the HUD shows
+  playerId?: number;
+  // Palette index the player's snake is drawn in
+  playerColor?: number;
+  showGrid?: boolean;
+  // Second HUD line under the score, e.g. the game mode's clock
+  status?: string;
+  // Scroll the arena to keep the player's head centred; otherwise the
+  // arena is drawn from the canvas' top-left corner
+  followPlayer?: boolean;
+  // Earlier state to interpolate heads from, `alpha` of the way to `state`
+  previous?: GameState;
+  alpha?: number;
+  // Point the player steers toward with the mouse, in cells
+  aim?: [number, number] | null;
+}
+
+// Head position in (fractional) grid cells between the previous and current tick
+const interpolateHead = (
+  snake: Snake,
+  previous: GameState | undefined,
+  alpha: number
+): [number, number] => {
+  const before = previous?.snakes.find(other => other.id === snake.id);
+  // Only slide between neighbouring cells; anything else is a (re)spawn
+  if (!before || !before.isAlive || Math.abs(before.x - snake.x) + Math.abs(before.y - snake.y) !== 1) {
+    return [snake.x, snake.y];
+  }
+  return [
+    before.x + (snake.x - before.x) * alpha,
+    before.y + (snake.y - before.y) * alpha,
+  ];
+};
+
+// === CAMERA ===
+// Part of the arena on screen, in cells
+export interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Top-left corner of the view, in arena pixels
+export interface Camera {
+  x: number;
+  y: number;
+}
+
+// Centres the view on `focus` (in cells) without scrolling past the arena
+// edge; an axis where the whole arena fits is centred instead
+export const followCamera = (
+  [focusX, focusY]: [number, number],
+  state: GameState,
+  cellSize: number,
+  viewWidth: number,
+  viewHeight: number
+): Camera => {
+  const axis = (focus: number, cells: number, view: number) => {
+    const size = cells * cellSize;
+    if (size <= view) return (size - view) / 2;
+    return Math.max(0, Math.min(size - view, (focus + 0.5) * cellSize - view / 2));
+  };
+  return {
+    x: axis(focusX, state.config.gridWidth, viewWidth),
+    y: axis(focusY, state.config.gridHeight, viewHeight),
+  };
+};
+
+// Converts a point on the canvas, in pixels, to cells in the arena
+export const canvasToCells = (
+  viewport: Viewport,
+  { width }: { width: number },
+  [x, y]: [number, number]
+): [number, number] => {
+  const cellsPerPixel = viewport.width / width;
+  return [viewport.x + x * cellsPerPixel, viewport.y + y * cellsPerPixel];
+};
+
+// A trail that closed this tick stays drawn until the head reaches home
+const interpolateTrail = (snake: Snake, previous: GameState | undefined, alpha: number) => {
+  if (snake.trailLength > 0 || alpha >= 1) return trailOf(snake);
+  const before = previous?.snakes.find(other => other.id === snake.id);
+  return before && before.isAlive && before.trailLength > 0
+    ? [...trailOf(before), [before.x, before.y] as Point]
+    : trailOf(snake);
+};
+
+// === LAYERS ===
+// Parts of the picture that rarely change are drawn once into offscreen
+// canvases and copied onto the visible one every frame. Territory borders
+// are stroked from cached paths; only trails, heads and the HUD are drawn
+// from scratch.
+
+// "#RRGGBB" -> [r, g, b]
+const parseHex = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+type LayerCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Workers have no document, so layers are offscreen wherever possible
+const createLayerCanvas = (width: number, height: number): { canvas: LayerCanvas; ctx: Canvas2D } => {
+  if (typeof OffscreenCanvas !== "undefined") {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, ctx: canvas.getContext("2d")! };
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext("2d")! };
+};
+
+// Ownership drawn one pixel per cell, to be scaled up without smoothing.
+// Only the cells that changed since the last paint are repainted, unless
+// the colours changed too.
+interface OwnershipLayer {
+  canvas: LayerCanvas;
+  ctx: Canvas2D;
+  image: ImageData;
+  ownership: Uint8Array;
+  // Which snakes are drawn, and in which colours
+  palette: string;
+}
+
+const paintOwnership = (
+  layer: OwnershipLayer | undefined,
+  state: GameState,
+  playerId: number,
+  playerColor: number,
+  opacity: number
+): OwnershipLayer => {
+  const { gridWidth, gridHeight } = state.config;
+  const snakes = selectAliveSnakes(state);
+  const palette = `${playerId}:${playerColor}:${snakes.map(snake => snake.id).join(",")}`;
+  if (layer && layer.ownership === state.ownership && layer.palette === palette) return layer;
+
+  const isResized = !layer || layer.image.width !== gridWidth || layer.image.height !== gridHeight;
+  const repaintAll = isResized || layer.palette !== palette;
+  const { canvas, ctx } = isResized ? createLayerCanvas(gridWidth, gridHeight) : layer;
+  const image = isResized ? ctx.createImageData(gridWidth, gridHeight) : layer.image;
+
+  const colors = new Map(snakes.map(snake => [
+    snake.id,
+    parseHex(snakeColors(snake, playerId, playerColor).snake),
+  ]));
+
+  let minX = gridWidth;
+  let minY = gridHeight;
+  let maxX = -1;
+  let maxY = -1;
+  for (let i = 0; i < state.ownership.length; i++) {
+    const owner = state.ownership[i];
+    if (!repaintAll && layer.ownership[i] === owner) continue;
+
+    const color = owner === NO_OWNER ? undefined : colors.get(owner);
+    image.data[i * 4] = color ? color[0] : 0;
+    image.data[i * 4 + 1] = color ? color[1] : 0;
+    image.data[i * 4 + 2] = color ? color[2] : 0;
+    image.data[i * 4 + 3] = color ? opacity : 0;
+
+    const x = i % gridWidth;
+    const y = (i - x) / gridWidth;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  if (maxX >= 0) ctx.putImageData(image, 0, 0, minX, minY, maxX - minX + 1, maxY - minY + 1);
+
+  return { canvas, ctx, image, ownership: state.ownership, palette };
+};
+
+// Grid lines for one screenful plus a cell, so the same tile can be shifted
+// by the camera's offset into the current cell
+interface GridLayer {
+  canvas: LayerCanvas;
+  cellSize: number;
+}
+
+const drawGridTile = (cellSize: number, viewWidth: number, viewHeight: number): GridLayer => {
+  const { canvas, ctx } = createLayerCanvas(Math.ceil(viewWidth + cellSize), Math.ceil(viewHeight + cellSize));
+  ctx.strokeStyle = COLORS.grid;
+  ctx.lineWidth = 0.5;
+  ctx.beginPath();
+  for (let x = 0; x * cellSize <= canvas.width; x++) {
+    ctx.moveTo(x * cellSize, 0);
+    ctx.lineTo(x * cellSize, canvas.height);
+  }
+  for (let y = 0; y * cellSize <= canvas.height; y++) {
+    ctx.moveTo(0, y * cellSize);
+    ctx.lineTo(canvas.width, y * cellSize);
+  }
+  ctx.stroke();
+  return { canvas, cellSize };
+};
+
+interface Layers {
+  grid?: GridLayer;
+  territories?: OwnershipLayer;
+}
+
+// Keyed by the visible canvas' context, so every canvas keeps its own cache
+const layerCache = new WeakMap<Canvas2D, Layers>();
+
+// === TERRITORY BORDERS ===
+// Each snake's outline in cell units. The engine swaps in a new outline
+// whenever the territory changes shape, so a path is built once per shape.
+const borderPaths = new WeakMap<MultiPolygon, Path2D>();
+
+const borderPath = (territories: MultiPolygon): Path2D => {
+  let path = borderPaths.get(territories);
+  if (!path) {
+    path = new Path2D();
+    for (const ring of territories.flat()) {
+      path.moveTo(ring[0][0], ring[0][1]);
+      for (let i = 1; i < ring.length; i++) path.lineTo(ring[i][0], ring[i][1]);
+      path.closePath();
+    }
+    borderPaths.set(territories, path);
+  }
+  return path;
+};
+
+// === DRAW ONE SNAKE'S TRAIL AND HEAD ===
+const drawSnake = (
+  ctx: Canvas2D,
+  snake: Snake,
+  colors: SnakeColors,
+  trail: Point[],
+  [x, y]: [number, number],
+  cellSize: number
+) => {
+
+  // Draw trail (semi-transparent)
+  if (trail.length > 0) {
+    ctx.strokeStyle = colors.trail;
+    ctx.lineWidth = cellSize * 0.8;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(
+      trail[0][0] * cellSize + cellSize / 2,
+      trail[0][1] * cellSize + cellSize / 2
+    );
+    for (let i = 1; i < trail.length; i++) {
+      ctx.lineTo(
+        trail[i][0] * cellSize + cellSize / 2,
+        trail[i][1] * cellSize + cellSize / 2
+      );
+    }
+    // Connect to current position
+    ctx.lineTo(x * cellSize + cellSize / 2, y * cellSize + cellSize / 2);
+    ctx.stroke();
+  }
+
+  // Draw snake head with glow
+  const headX = x * cellSize + cellSize / 2;
+  const headY = y * cellSize + cellSize / 2;
+
+  ctx.shadowColor = colors.glow;
+  ctx.shadowBlur = 15;
+
+  ctx.fillStyle = colors.snake;
+  ctx.beginPath();
+  ctx.arc(headX, headY, cellSize * 0.6, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Reset shadow
+  ctx.shadowBlur = 0;
+
+  // Draw name above snake
+  ctx.fillStyle = colors.snake;
+  ctx.font = "bold 12px Rajdhani, sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "bottom";
+  ctx.fillText(snake.name, headX, headY - cellSize);
+};
+
+// === AIM INDICATOR ===
+// Dashed line from the head to the pointer, ending in a small ring
+const drawAim = (
+  ctx: Canvas2D,
+  [x, y]: [number, number],
+  [aimX, aimY]: [number, number],
+  color: string,
+  cellSize: number
+) => {
+  const headX = (x + 0.5) * cellSize;
+  const headY = (y + 0.5) * cellSize;
+  const pointX = aimX * cellSize;
+  const pointY = aimY * cellSize;
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.globalAlpha = 0.5;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([cellSize / 2, cellSize / 2]);
+  ctx.beginPath();
+  ctx.moveTo(headX, headY);
+  ctx.lineTo(pointX, pointY);
+  ctx.stroke();
+
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 0.9;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(pointX, pointY, cellSize * 0.6, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// === RENDER ===
+export const renderGame = (
+  ctx: Canvas2D,
+  state: GameState,
+  {
+    cellSize,
+    playerId = PLAYER_ID,
+    playerColor = 0,
+    showGrid = true,
+    status,
+    followPlayer = false,
+    previous,
+    alpha = 1,
+    aim = null,
+  }: RenderOptions
+): Viewport => {
+  const { canvas } = ctx;
+  const { gridWidth, gridHeight } = state.config;
+  const snakes = selectAliveSnakes(state);
+  const colorsOf = (snake: Snake) => snakeColors(snake, playerId, playerColor);
+
+  // Clear canvas
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const player = followPlayer ? selectPlayer(state, playerId) : undefined;
+  const camera = player
+    ? followCamera(interpolateHead(player, previous, alpha), state, cellSize, canvas.width, canvas.height)
+    : { x: 0, y: 0 };
+  const arenaWidth = gridWidth * cellSize;
+  const arenaHeight = gridHeight * cellSize;
+
+  // Cells in view
+  const firstX = Math.max(0, Math.floor(camera.x / cellSize));
+  const lastX = Math.min(gridWidth, Math.ceil((camera.x + canvas.width) / cellSize));
+  const firstY = Math.max(0, Math.floor(camera.y / cellSize));
+  const lastY = Math.min(gridHeight, Math.ceil((camera.y + canvas.height) / cellSize));
+
+  let layers = layerCache.get(ctx);
+  if (!layers) {
+    layers = {};
+    layerCache.set(ctx, layers);
+  }
+
+  ctx.save();
+  ctx.translate(-camera.x, -camera.y);
+
+  // Subtle grid, clipped to the arena
+  if (showGrid) {
+    const tile = layers.grid;
+    if (
+      !tile ||
+      tile.cellSize !== cellSize ||
+      tile.canvas.width < canvas.width + cellSize ||
+      tile.canvas.height < canvas.height + cellSize
+    ) {
+      layers.grid = drawGridTile(cellSize, canvas.width, canvas.height);
+    }
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, arenaWidth, arenaHeight);
+    ctx.clip();
+    ctx.drawImage(layers.grid.canvas, firstX * cellSize, firstY * cellSize);
+    ctx.restore();
+  }
+
+  // Arena edge, which is deadly
+  ctx.strokeStyle = COLORS.border;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(0, 0, arenaWidth, arenaHeight);
+
+  // Territories and their borders first so every trail and head stays visible
+  // on top. Only the cells in view are scaled up from the one-pixel-per-cell
+  // layer.
+  layers.territories = paintOwnership(layers.territories, state, playerId, playerColor, 255);
+  if (lastX > firstX && lastY > firstY) {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(
+      layers.territories.canvas,
+      firstX,
+      firstY,
+      lastX - firstX,
+      lastY - firstY,
+      firstX * cellSize,
+      firstY * cellSize,
+      (lastX - firstX) * cellSize,
+      (lastY - firstY) * cellSize
+    );
+  }
+
+  ctx.save();
+  ctx.scale(cellSize, cellSize);
+  ctx.strokeStyle = COLORS.territoryBorder;
+  ctx.lineWidth = 2 / cellSize;
+  for (const snake of snakes) ctx.stroke(borderPath(snake.territories));
+  ctx.restore();
+
+  for (const snake of snakes) {
+    drawSnake(
+      ctx,
+      snake,
+      colorsOf(snake),
+      interpolateTrail(snake, previous, alpha),
+      interpolateHead(snake, previous, alpha),
+      cellSize
+    );
+  }
+
+  const aimer = aim ? selectPlayer(state, playerId) : undefined;
+  if (aimer?.isAlive) {
+    drawAim(ctx, interpolateHead(aimer, previous, alpha), aim, colorsOf(aimer).snake, cellSize);
+  }
+
+  ctx.restore();
+
+  // Draw HUD
+  const score = selectTerritoryPercentage(state, playerId);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = "bold 16px Orbitron, sans-serif";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.fillText(`${score.toFixed(1)}%`, 20, 20);
+  if (status) {
+    ctx.font = "bold 14px Rajdhani, sans-serif";
+    ctx.fillText(status, 20, 44);
+  }
+
+  // Standings when playing against bots
+  if (state.snakes.length > 1) {
+    const standings = [...snakes].sort((a, b) => b.territoryArea - a.territoryArea);
+    ctx.font = "bold 14px Rajdhani, sans-serif";
+    ctx.textAlign = "right";
+    standings.forEach((snake, i) => {
+      ctx.fillStyle = colorsOf(snake).snake;
+      ctx.fillText(
+        `${snake.name} ${selectSnakePercentage(state, snake).toFixed(1)}%`,
+        canvas.width - 20,
+        20 + i * 18
+      );
+    });
+  }
+
+  return {
+    x: camera.x / cellSize,
+    y: camera.y / cellSize,
+    width: canvas.width / cellSize,
+    height: canvas.height / cellSize,
+  };
+};
+
+// === MINIMAP ===
+export interface MinimapOptions {
+  playerId?: number;
+  playerColor?: number;
+  // Outlined so the player can see which part of the arena is on screen
+  viewport?: Viewport;
+}
+
+// Territories at one pixel per cell, kept per minimap canvas
+const minimapLayers = new WeakMap<Canvas2D, OwnershipLayer>();
+
+// === RENDER MINIMAP ===
+// The whole arena scaled to fit the canvas: territories, trails, heads and
+// the viewport outline
+export const renderMinimap = (
+  ctx: Canvas2D,
+  state: GameState,
+  { playerId = PLAYER_ID, playerColor = 0, viewport }: MinimapOptions
+) => {
+  const { canvas } = ctx;
+  const { gridWidth, gridHeight } = state.config;
+  const scale = Math.min(canvas.width / gridWidth, canvas.height / gridHeight);
+  const offsetX = (canvas.width - gridWidth * scale) / 2;
+  const offsetY = (canvas.height - gridHeight * scale) / 2;
+
+  const territories = paintOwnership(minimapLayers.get(ctx), state, playerId, playerColor, 200);
+  minimapLayers.set(ctx, territories);
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.save();
+  ctx.translate(offsetX, offsetY);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(territories.canvas, 0, 0, gridWidth * scale, gridHeight * scale);
+
+  const toMap = (cell: number) => (cell + 0.5) * scale;
+
+  for (const snake of selectAliveSnakes(state)) {
+    const { snake: color } = snakeColors(snake, playerId, playerColor);
+
+    const trail = trailOf(snake);
+    if (trail.length > 0) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = Math.max(1, scale);
+      ctx.beginPath();
+      ctx.moveTo(toMap(trail[0][0]), toMap(trail[0][1]));
+      for (const [x, y] of trail) ctx.lineTo(toMap(x), toMap(y));
+      ctx.lineTo(toMap(snake.x), toMap(snake.y));
+      ctx.stroke();
+    }
+
+    // Heads stay visible however small the map is
+    const radius = snake.id === playerId ? 3 : 2;
+    ctx.fillStyle = snake.id === playerId ? "#FFFFFF" : color;
+    ctx.beginPath();
+    ctx.arc(toMap(snake.x), toMap(snake.y), radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  if (viewport) {
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      Math.max(0, viewport.x) * scale,
+      Math.max(0, viewport.y) * scale,
+      Math.min(viewport.width, gridWidth) * scale,
+      Math.min(viewport.height, gridHeight) * scale
+    );
+  }
+
+  ctx.restore();
+};
+
+// === RENDER A LOCAL RUN ===
+// Cells visible across the shorter side of the screen, so a phone and a
+// large monitor see the same amount of the arena
+const VISIBLE_CELLS = 45;
+
+export const fitCellSize = ({ width, height }: { width: number; height: number }) =>
+  Math.max(1, Math.min(width, height) / VISIBLE_CELLS);
+
+const formatClock = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// The mode's clock or goal, shown under the score
+const modeStatus = (mode: GameMode, elapsedMs: number, tickMs: number): string | undefined => {
+  switch (mode) {
+    case "timed":
+      return formatClock(TIMED_DURATION_MS - elapsedMs);
+    case "race":
+      return `${formatClock(elapsedMs)} · FIRST TO ${RACE_TARGET_PERCENTAGE}%`;
+    case "survival":
+      return `${formatClock(elapsedMs)} · ${Math.round(1000 / tickMs)} CELLS/S`;
+    default:
+      return undefined;
+  }
+};
+
+export interface LocalFrameOptions {
+  mode: GameMode;
+  playerColor: number;
+  showGrid: boolean;
+}
+
+// One frame of a single-player run, wherever it is simulated. Returns the
+// part of the arena drawn.
+export const renderLocalFrame = (
+  ctx: Canvas2D,
+  minimapCtx: Canvas2D | null,
+  frame: LocalFrame,
+  { mode, playerColor, showGrid }: LocalFrameOptions
+): Viewport => {
+  const viewport = renderGame(ctx, frame.state, {
+    cellSize: fitCellSize(ctx.canvas),
+    followPlayer: true,
+    playerColor,
+    showGrid,
+    status: modeStatus(mode, frame.elapsedMs, frame.tickMs),
+    previous: frame.previous ?? undefined,
+    alpha: frame.alpha,
+    aim: frame.aim,
+  });
+  if (minimapCtx) renderMinimap(minimapCtx, frame.state, { playerColor, viewport });
+  return viewport;
+};
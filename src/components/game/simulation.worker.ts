@@ -0,0 +1,78 @@
+import { createLocalRun, selectPlayer, type LocalRun } from "@/lib/game";
+import { canvasToCells, renderLocalFrame, type Canvas2D, type LocalFrameOptions } from "./renderer";
+import type { FromWorkerMessage, ToWorkerMessage } from "./simulationProtocol";
+
+// === SIMULATION WORKER ===
+// Runs a single-player game off the main thread, so a slow step (merging a
+// big capture into a complex territory) never delays input handling, and
+// draws every frame straight into the canvases the page transferred.
+
+const post = (message: FromWorkerMessage) => self.postMessage(message);
+
+// Workers that have OffscreenCanvas mostly have requestAnimationFrame too;
+// the rest fall back to a 60 Hz timer
+const nextFrame = (callback: (now: number) => void) => {
+  if (typeof requestAnimationFrame === "function") {
+    requestAnimationFrame(callback);
+  } else {
+    setTimeout(() => callback(performance.now()), 1000 / 60);
+  }
+};
+
+let run: LocalRun | null = null;
+let render: LocalFrameOptions | null = null;
+let ctx: Canvas2D | null = null;
+let minimapCtx: Canvas2D | null = null;
+let isPaused = false;
+let lastTick = -1;
+// Mouse position in canvas pixels, turned into cells with each frame's view
+let pointer: [number, number] | null = null;
+
+const loop = (now: number) => {
+  if (!run || !ctx) return;
+
+  const { frame, ending } = run.advance(now, isPaused);
+  const player = selectPlayer(frame.state);
+  if (player && frame.state.tick !== lastTick) {
+    lastTick = frame.state.tick;
+    post({ type: "snapshot", tick: lastTick, isAlive: player.isAlive });
+  }
+
+  if (ending) {
+    post({ type: "ended", ending });
+    return;
+  }
+
+  const viewport = renderLocalFrame(ctx, minimapCtx, frame, render);
+  run.aimAt(pointer && canvasToCells(viewport, ctx.canvas, pointer));
+  nextFrame(loop);
+};
+
+self.addEventListener("message", (event: MessageEvent<ToWorkerMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "start":
+      run = createLocalRun(message.run);
+      render = message.render;
+      ctx = message.canvas.getContext("2d");
+      minimapCtx = message.minimap?.getContext("2d") ?? null;
+      nextFrame(loop);
+      break;
+    case "input":
+      run?.queueDirection(message.direction);
+      break;
+    case "aim":
+      pointer = message.point;
+      break;
+    case "pause":
+      isPaused = message.isPaused;
+      break;
+    case "resize":
+      if (ctx) {
+        ctx.canvas.width = message.width;
+        ctx.canvas.height = message.height;
+      }
+      break;
+  }
+});
@@ -0,0 +1,29 @@
+import type { Direction, LocalRunOptions, RunEnding } from "@/lib/game";
+import type { LocalFrameOptions } from "./renderer";
+
+// Messages between the page and the simulation worker. The worker owns the
+// run and draws into the canvases the page handed over; the page forwards
+// input and hears back about the player and how the run ended.
+
+// === PAGE -> WORKER ===
+export type ToWorkerMessage =
+  | {
+      type: "start";
+      run: LocalRunOptions;
+      render: LocalFrameOptions;
+      canvas: OffscreenCanvas;
+      minimap: OffscreenCanvas | null;
+    }
+  | { type: "input"; direction: Direction }
+  // Mouse position in canvas pixels, null to stop steering by it
+  | { type: "aim"; point: [number, number] | null }
+  | { type: "pause"; isPaused: boolean }
+  // The page's size changed; the worker sizes the game canvas it now owns
+  | { type: "resize"; width: number; height: number };
+
+// === WORKER -> PAGE ===
+export type FromWorkerMessage =
+  // Sent on start and after every step, so the page knows whether input
+  // still matters without waiting on the worker
+  | { type: "snapshot"; tick: number; isAlive: boolean }
+  | { type: "ended"; ending: RunEnding };
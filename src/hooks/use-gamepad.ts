@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from "react";
+import { gamepadSource, watchGamepadConnection } from "@/lib/input";
+
+// Whether any controller is connected. Browsers only report one after its
+// first button press on the page.
+export const useGamepadConnected = () => {
+  const [connected, setConnected] = useState(false);
+  useEffect(() => watchGamepadConnection(setConnected), []);
+  return connected;
+};
+
+interface GamepadMenuHandlers {
+  // A button
+  onConfirm?: () => void;
+  // Start button
+  onPause?: () => void;
+}
+
+// Controller shortcuts for whichever menu is showing
+export const useGamepadMenu = (handlers: GamepadMenuHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => gamepadSource((action) => {
+    if (action.type === "confirm") handlersRef.current.onConfirm?.();
+    if (action.type === "pause") handlersRef.current.onPause?.();
+  }), []);
+};
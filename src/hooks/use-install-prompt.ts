@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { promptInstall, watchInstallPrompt } from "@/lib/pwa";
+
+// Whether the browser lets the game be installed right now, and a function
+// that asks it to
+export const useInstallPrompt = () => {
+  const [canInstall, setCanInstall] = useState(false);
+  useEffect(() => watchInstallPrompt(setCanInstall), []);
+  return { canInstall, install: promptInstall };
+};
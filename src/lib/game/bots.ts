@@ -0,0 +1,173 @@
+import { DIRECTION_DELTAS, DIRECTIONS, isOppositeDirection, turnLeft, turnRight } from "./directions";
+import { cellIndex, NO_OWNER } from "./ownership";
+import { nextRandom } from "./random";
+import { trailOf } from "./trails";
+import type { BotBrain, BotDifficulty, Direction, GameState, Snake } from "./types";
+
+// === DIFFICULTY PROFILES ===
+interface BotProfile {
+  // Range of the straight legs walked on an excursion
+  minLeg: number;
+  maxLeg: number;
+  // Chance per tick of turning while wandering inside territory
+  turnChance: number;
+  // Trail length at which the bot always heads home
+  maxTrail: number;
+  // Head home when an enemy head gets this close to the trail (0 = never)
+  threatRadius: number;
+  // Chase enemy trails within this many steps (0 = never)
+  huntRadius: number;
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: { minLeg: 3, maxLeg: 6, turnChance: 0.2, maxTrail: 16, threatRadius: 0, huntRadius: 0 },
+  medium: { minLeg: 4, maxLeg: 10, turnChance: 0.15, maxTrail: 28, threatRadius: 5, huntRadius: 0 },
+  hard: { minLeg: 6, maxLeg: 14, turnChance: 0.1, maxTrail: 40, threatRadius: 8, huntRadius: 6 },
+};
+
+export const createBotBrain = (difficulty: BotDifficulty): BotBrain => ({
+  difficulty,
+  plan: [],
+});
+
+export interface BotDecision {
+  direction: Direction;
+  brain: BotBrain;
+  rngState: number;
+}
+
+// === MOVE SAFETY ===
+const isSafeMove = (state: GameState, snake: Snake, direction: Direction): boolean => {
+  if (isOppositeDirection(direction, snake.direction)) return false;
+
+  const { gridWidth, gridHeight } = state.config;
+  const [dx, dy] = DIRECTION_DELTAS[direction];
+  const x = snake.x + dx;
+  const y = snake.y + dy;
+
+  if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) return false;
+  return state.trailGrid[cellIndex(gridWidth, x, y)] !== snake.id;
+};
+
+// === BREADTH-FIRST PATHFINDING ===
+// First direction of the shortest path from the head to a cell matching
+// `isTarget`, never crossing the snake's own trail or reversing.
+const pathTo = (
+  state: GameState,
+  snake: Snake,
+  isTarget: (index: number) => boolean,
+  maxDistance = Infinity
+): Direction | null => {
+  const { gridWidth, gridHeight } = state.config;
+  const visited = new Uint8Array(gridWidth * gridHeight);
+  for (const [tx, ty] of trailOf(snake)) visited[cellIndex(gridWidth, tx, ty)] = 1;
+  visited[cellIndex(gridWidth, snake.x, snake.y)] = 1;
+
+  let frontier: { index: number; first: Direction }[] = [];
+  for (const direction of DIRECTIONS) {
+    if (!isSafeMove(state, snake, direction)) continue;
+    const [dx, dy] = DIRECTION_DELTAS[direction];
+    const index = cellIndex(gridWidth, snake.x + dx, snake.y + dy);
+    if (isTarget(index)) return direction;
+    visited[index] = 1;
+    frontier.push({ index, first: direction });
+  }
+
+  for (let distance = 2; frontier.length > 0 && distance <= maxDistance; distance++) {
+    const nextFrontier: typeof frontier = [];
+    for (const { index, first } of frontier) {
+      const x = index % gridWidth;
+      const y = (index - x) / gridWidth;
+      for (const [dx, dy] of Object.values(DIRECTION_DELTAS)) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= gridWidth || ny >= gridHeight) continue;
+        const next = cellIndex(gridWidth, nx, ny);
+        if (visited[next]) continue;
+        if (isTarget(next)) return first;
+        visited[next] = 1;
+        nextFrontier.push({ index: next, first });
+      }
+    }
+    frontier = nextFrontier;
+  }
+
+  return null;
+};
+
+// Is any enemy head close enough to cut this snake's trail?
+const isThreatened = (state: GameState, snake: Snake, radius: number): boolean => {
+  const cells = [...trailOf(snake), [snake.x, snake.y]];
+
+  return state.snakes.some(enemy =>
+    enemy.isAlive &&
+    enemy.id !== snake.id &&
+    cells.some(([x, y]) => Math.abs(enemy.x - x) + Math.abs(enemy.y - y) <= radius)
+  );
+};
+
+// === DECIDE NEXT MOVE ===
+// Bots leave their land on a two-leg excursion (out, then sideways) and let
+// pathfinding bring them home, which closes a roughly rectangular loop.
+export const decideBotMove = (state: GameState, snake: Snake, rngState: number): BotDecision => {
+  const brain = snake.brain ?? createBotBrain(state.config.botDifficulty);
+  const profile = BOT_PROFILES[brain.difficulty];
+  const { gridWidth } = state.config;
+
+  let rng = rngState;
+  const random = () => {
+    const [nextState, value] = nextRandom(rng);
+    rng = nextState;
+    return value;
+  };
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const decide = (direction: Direction, plan: Direction[]): BotDecision => ({
+    direction,
+    brain: { ...brain, plan },
+    rngState: rng,
+  });
+  const anySafe = () => DIRECTIONS.find(direction => isSafeMove(state, snake, direction)) ?? snake.direction;
+
+  // Hunt nearby enemy trails while our own trail is still short
+  if (profile.huntRadius > 0 && snake.trailLength < profile.maxTrail / 2) {
+    const isEnemyTrail = (index: number) => {
+      const owner = state.trailGrid[index];
+      return owner !== NO_OWNER && owner !== snake.id;
+    };
+    const hunt = pathTo(state, snake, isEnemyTrail, profile.huntRadius);
+    if (hunt) return decide(hunt, []);
+  }
+
+  if (snake.isOutside) {
+    let plan = brain.plan;
+    const threatened = profile.threatRadius > 0 && isThreatened(state, snake, profile.threatRadius);
+
+    if (threatened || snake.trailLength >= profile.maxTrail) {
+      plan = [];
+    } else if (snake.trailLength === 1 && plan.length === 0) {
+      // Just left territory: plan the rest of the outward leg and a side leg
+      const side = random() < 0.5 ? turnLeft(snake.direction) : turnRight(snake.direction);
+      plan = [
+        ...Array<Direction>(randomInt(profile.minLeg, profile.maxLeg) - 1).fill(snake.direction),
+        ...Array<Direction>(randomInt(profile.minLeg, profile.maxLeg)).fill(side),
+      ];
+    }
+
+    if (plan.length > 0 && isSafeMove(state, snake, plan[0])) {
+      return decide(plan[0], plan.slice(1));
+    }
+
+    const home = pathTo(state, snake, index => state.ownership[index] === snake.id);
+    return decide(home ?? anySafe(), []);
+  }
+
+  // Inside territory: wander, mostly straight, turning away from walls
+  const turns = random() < 0.5
+    ? [turnLeft(snake.direction), turnRight(snake.direction)]
+    : [turnRight(snake.direction), turnLeft(snake.direction)];
+  const preferred = random() < profile.turnChance
+    ? [...turns, snake.direction]
+    : [snake.direction, ...turns];
+
+  return decide(preferred.find(direction => isSafeMove(state, snake, direction)) ?? anySafe(), []);
+};
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "./engine";
+import { captureTrail, cellIndex, countOwnedCells } from "./ownership";
+import { trailOf } from "./trails";
+import type { Direction, GameState, Point } from "./types";
+
+const OWNER = 1;
+
+// === ASCII GRIDS ===
+// "#" is the owner's land, "o" the trail and "." anything else
+const parseGrid = (rows: string[]) => {
+  const gridWidth = rows[0].length;
+  const gridHeight = rows.length;
+  const ownership = new Uint8Array(gridWidth * gridHeight);
+  const trail: Point[] = [];
+  rows.forEach((row, y) => {
+    [...row].forEach((cell, x) => {
+      if (cell === "#") ownership[cellIndex(gridWidth, x, y)] = OWNER;
+      if (cell === "o") trail.push([x, y]);
+    });
+  });
+  return { ownership, trail, gridWidth, gridHeight };
+};
+
+const drawOwnership = (ownership: Uint8Array, gridWidth: number): string[] => {
+  const rows: string[] = [];
+  for (let i = 0; i < ownership.length; i += gridWidth) {
+    rows.push([...ownership.subarray(i, i + gridWidth)].map(owner => (owner === OWNER ? "#" : ".")).join(""));
+  }
+  return rows;
+};
+
+const capture = (rows: string[]) => {
+  const { ownership, trail, gridWidth, gridHeight } = parseGrid(rows);
+  return drawOwnership(captureTrail(ownership, gridWidth, gridHeight, OWNER, trail).ownership, gridWidth);
+};
+
+// === CAPTURE BY FLOOD FILL ===
+describe("captureTrail", () => {
+  it("fills the corner an L-shaped loop cuts off", () => {
+    expect(capture([
+      "..........",
+      "...ooooo..",
+      "...o...o..",
+      "...o...o..",
+      ".####..o..",
+      ".####ooo..",
+      ".####.....",
+      ".####.....",
+      "..........",
+      "..........",
+    ])).toEqual([
+      "..........",
+      "...#####..",
+      "...#####..",
+      "...#####..",
+      ".#######..",
+      ".#######..",
+      ".####.....",
+      ".####.....",
+      "..........",
+      "..........",
+    ]);
+  });
+
+  it("fills the pocket between a U-shaped loop and the territory", () => {
+    expect(capture([
+      "..........",
+      "..........",
+      "..oooooo..",
+      "..o....o..",
+      "..o....o..",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..........",
+    ])).toEqual([
+      "..........",
+      "..........",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..######..",
+      "..........",
+    ]);
+  });
+
+  it("fills the ring around the territory when the loop wraps all the way round", () => {
+    expect(capture([
+      "..........",
+      ".ooooooo..",
+      ".o.....o..",
+      ".o.###.o..",
+      ".o.###oo..",
+      ".o.###o...",
+      ".o....o...",
+      ".oooooo...",
+      "..........",
+      "..........",
+    ])).toEqual([
+      "..........",
+      ".#######..",
+      ".#######..",
+      ".#######..",
+      ".#######..",
+      ".######...",
+      ".######...",
+      ".######...",
+      "..........",
+      "..........",
+    ]);
+  });
+
+  it("leaves the input grid untouched", () => {
+    const { ownership, trail, gridWidth, gridHeight } = parseGrid([
+      ".....",
+      ".ooo.",
+      ".o.o.",
+      ".###.",
+      ".....",
+    ]);
+    const before = ownership.slice();
+    captureTrail(ownership, gridWidth, gridHeight, OWNER, trail);
+    expect(ownership).toEqual(before);
+  });
+});
+
+// === CAPTURE THROUGH THE ENGINE ===
+// Steers the player along `moves`, each a direction and a number of steps
+const drive = (state: GameState, moves: [Direction, number][]): GameState => {
+  for (const [direction, steps] of moves) {
+    for (let i = 0; i < steps; i++) state = step(state, { direction });
+  }
+  return state;
+};
+
+const ownerAt = (state: GameState, x: number, y: number) =>
+  state.ownership[cellIndex(state.config.gridWidth, x, y)];
+
+describe("step", () => {
+  // 5x5 starting square centred on (10, 10), so cells 8-12 on both axes
+  const start = () => createGame({ gridWidth: 21, gridHeight: 21, initialTerritorySize: 5, playerName: "Test" });
+
+  it("captures an L-shaped loop that leaves and re-enters on different edges", () => {
+    // Out of the right edge, up, then back down into the top edge
+    const state = drive(start(), [["RIGHT", 4], ["UP", 6], ["LEFT", 4], ["DOWN", 4]]);
+    const player = state.snakes[0];
+
+    expect(player.isAlive).toBe(true);
+    expect(player.trailLength).toBe(0);
+    for (let y = 4; y <= 7; y++) {
+      for (let x = 10; x <= 14; x++) expect(ownerAt(state, x, y)).toBe(player.id);
+    }
+    expect(ownerAt(state, 15, 4)).not.toBe(player.id);
+    expect(player.territoryArea).toBe(countOwnedCells(state.ownership, player.id));
+    expect(player.territoryArea).toBe(25 + 5 * 4 + 2 * 3);
+  });
+
+  it("captures a U-shaped loop that leaves and re-enters the same edge", () => {
+    // Up out of the top edge, across, and back down into it
+    const state = drive(start(), [["UP", 5], ["RIGHT", 2], ["DOWN", 3]]);
+    const player = state.snakes[0];
+
+    expect(player.isAlive).toBe(true);
+    for (let y = 5; y <= 7; y++) {
+      for (let x = 10; x <= 12; x++) expect(ownerAt(state, x, y)).toBe(player.id);
+    }
+    expect(ownerAt(state, 9, 6)).not.toBe(player.id);
+    expect(player.territoryArea).toBe(countOwnedCells(state.ownership, player.id));
+    expect(player.territoryArea).toBe(25 + 3 * 3);
+  });
+
+  it("captures the ring a wrap-around loop encloses", () => {
+    // Out of the right edge and all the way round, coming back in from the
+    // same side
+    const state = drive(start(), [
+      ["RIGHT", 4], ["UP", 6], ["LEFT", 8], ["DOWN", 10], ["RIGHT", 8], ["UP", 3], ["LEFT", 2],
+    ]);
+    const player = state.snakes[0];
+
+    expect(player.isAlive).toBe(true);
+    for (let y = 4; y <= 14; y++) {
+      for (let x = 6; x <= 14; x++) expect(ownerAt(state, x, y)).toBe(player.id);
+    }
+    expect(player.territoryArea).toBe(countOwnedCells(state.ownership, player.id));
+    expect(player.territoryArea).toBe(9 * 11);
+  });
+
+  it("keeps trails apart when an earlier state is stepped again", () => {
+    const outside = drive(start(), [["RIGHT", 5]]);
+    const up = drive(outside, [["UP", 2]]);
+    const down = drive(outside, [["DOWN", 2]]);
+
+    expect(trailOf(outside.snakes[0])).toEqual([[12, 10], [13, 10], [14, 10]]);
+    expect(trailOf(up.snakes[0])).toEqual([[12, 10], [13, 10], [14, 10], [15, 10], [15, 9]]);
+    expect(trailOf(down.snakes[0])).toEqual([[12, 10], [13, 10], [14, 10], [15, 10], [15, 11]]);
+  });
+});
@@ -0,0 +1,40 @@
+// === FIXED TIMESTEP CLOCK ===
+// Turns variable frame times into a whole number of simulation steps plus
+// the fraction of the next step already elapsed (for interpolation). After
+// a long stall (tab switch, debugger) at most `maxStepsPerFrame` steps are
+// run and the rest of the backlog is dropped instead of fast-forwarding.
+export interface FixedStepClock {
+  advance: (now: number) => { steps: number; alpha: number };
+  // Let time pass without advancing the simulation, e.g. while paused
+  hold: (now: number) => void;
+  // Change the step length, e.g. as a run speeds up
+  setStepMs: (stepMs: number) => void;
+}
+
+export const createFixedStepClock = (stepMs: number, maxStepsPerFrame = 5): FixedStepClock => {
+  let lastTime: number | null = null;
+  let accumulator = 0;
+
+  return {
+    advance: (now) => {
+      accumulator += lastTime === null ? 0 : Math.max(0, now - lastTime);
+      lastTime = now;
+
+      let steps = Math.floor(accumulator / stepMs);
+      if (steps > maxStepsPerFrame) {
+        steps = maxStepsPerFrame;
+        accumulator = 0;
+      } else {
+        accumulator -= steps * stepMs;
+      }
+
+      return { steps, alpha: accumulator / stepMs };
+    },
+    hold: (now) => {
+      lastTime = now;
+    },
+    setStepMs: (next) => {
+      stepMs = next;
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import type { Direction } from "./types";
+
+export const DIRECTIONS: Direction[] = ["UP", "RIGHT", "DOWN", "LEFT"];
+
+export const DIRECTION_DELTAS: Record<Direction, [number, number]> = {
+  UP: [0, -1],
+  DOWN: [0, 1],
+  LEFT: [-1, 0],
+  RIGHT: [1, 0],
+};
+
+const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
+  UP: "DOWN",
+  DOWN: "UP",
+  LEFT: "RIGHT",
+  RIGHT: "LEFT",
+};
+
+export const isOppositeDirection = (a: Direction, b: Direction): boolean => {
+  return OPPOSITE_DIRECTION[a] === b;
+};
+
+// Turning as seen by the snake: clockwise on screen is a right turn
+export const turnRight = (direction: Direction): Direction => {
+  return DIRECTIONS[(DIRECTIONS.indexOf(direction) + 1) % 4];
+};
+
+export const turnLeft = (direction: Direction): Direction => {
+  return DIRECTIONS[(DIRECTIONS.indexOf(direction) + 3) % 4];
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { createGame, MAX_BOT_COUNT } from "./engine";
+
+describe("createGame", () => {
+  it("caps the bots at the owner ids the ownership grid can hold", () => {
+    const state = createGame({ gridWidth: 200, gridHeight: 200, initialTerritorySize: 3, botCount: 400 });
+    const ids = state.snakes.map(snake => snake.id);
+
+    expect(state.config.botCount).toBe(MAX_BOT_COUNT);
+    expect(Math.max(...ids)).toBeLessThanOrEqual(255);
+    expect(new Set(ids).size).toBe(ids.length);
+    // Every spawned snake holds its own starting square
+    for (const snake of state.snakes) expect(snake.territoryArea).toBe(9);
+  });
+});
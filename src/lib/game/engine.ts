@@ -0,0 +1,439 @@
+import { createBotBrain, decideBotMove } from "./bots";
+import { DIRECTION_DELTAS, DIRECTIONS, isOppositeDirection } from "./directions";
+import { createSquarePolygon, mergeWithTerritories, traceCells } from "./geometry";
+import {
+  NO_OWNER,
+  captureTrail,
+  cellIndex,
+  claimSquare,
+  countOwnedCells,
+  createOwnershipGrid,
+} from "./ownership";
+import { nextRandom, seedRandom } from "./random";
+import { clearTrail, extendTrail, trailOf } from "./trails";
+import type { DeathCause, Direction, GameConfig, GameInput, GameState, Point, Snake } from "./types";
+
+// === DEFAULT CONFIG ===
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  gridWidth: 100,
+  gridHeight: 60,
+  initialTerritorySize: 5, // 5x5 cells starting territory
+  seed: 0,
+  playerName: "Player",
+  botCount: 0,
+  botDifficulty: "medium",
+  victoryPercentage: 100,
+};
+
+// Owner id of the player's cells in the ownership grid
+export const PLAYER_ID = 1;
+
+const BOT_NAMES = ["Viper", "Mamba", "Cobra", "Python", "Krait", "Taipan", "Adder", "Boa"];
+
+// Attempts at finding a free spot for a new base before giving up on it
+const SPAWN_ATTEMPTS = 50;
+
+// Owner ids are stored in a Uint8Array
+const MAX_OWNER_ID = 255;
+
+// Bots take the owner ids after the player's
+export const MAX_BOT_COUNT = MAX_OWNER_ID - PLAYER_ID;
+
+const createSnake = (
+  id: number,
+  name: string,
+  x: number,
+  y: number,
+  direction: Direction,
+  config: GameConfig
+): Snake => ({
+  id,
+  name,
+  kind: id === PLAYER_ID ? "player" : "bot",
+  x,
+  y,
+  direction,
+  trailBuffer: [],
+  trailLength: 0,
+  territories: [createSquarePolygon(x, y, config.initialTerritorySize)],
+  territoryArea: 0,
+  isOutside: false,
+  isAlive: true,
+  kills: 0,
+  brain: id === PLAYER_ID ? null : createBotBrain(config.botDifficulty),
+  stats: {
+    distance: 0,
+    captures: 0,
+    largestCapture: 0,
+    peakArea: 0,
+    diedAt: null,
+    causeOfDeath: null,
+  },
+});
+
+// Sets the cached cell count, keeping the peak up to date
+const withArea = (snake: Snake, territoryArea: number): Snake => ({
+  ...snake,
+  territoryArea,
+  stats: { ...snake.stats, peakArea: Math.max(snake.stats.peakArea, territoryArea) },
+});
+
+const withDeath = (snake: Snake, cause: DeathCause, tick: number): Snake => ({
+  ...snake,
+  isAlive: false,
+  stats: { ...snake.stats, diedAt: tick, causeOfDeath: cause },
+});
+
+// === FIND A SPAWN POINT ===
+// Random free spot for a new base, keeping a one cell gap around it
+const findSpawnPoint = (
+  ownership: Uint8Array,
+  config: GameConfig,
+  random: () => number
+): Point | null => {
+  const { gridWidth, gridHeight, initialTerritorySize } = config;
+  const halfSize = Math.floor(initialTerritorySize / 2);
+  const margin = halfSize + 2;
+  if (gridWidth <= margin * 2 || gridHeight <= margin * 2) return null;
+
+  const isAreaFree = (x: number, y: number) => {
+    for (let cy = y - halfSize - 1; cy <= y + halfSize + 1; cy++) {
+      for (let cx = x - halfSize - 1; cx <= x + halfSize + 1; cx++) {
+        if (ownership[cellIndex(gridWidth, cx, cy)] !== NO_OWNER) return false;
+      }
+    }
+    return true;
+  };
+
+  for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+    const x = margin + Math.floor(random() * (gridWidth - margin * 2));
+    const y = margin + Math.floor(random() * (gridHeight - margin * 2));
+    if (isAreaFree(x, y)) return [x, y];
+  }
+
+  return null;
+};
+
+// Random generator threaded through a mutable rng state
+const createRandom = (seedState: number) => {
+  let rngState = seedState;
+  const random = () => {
+    const [nextState, value] = nextRandom(rngState);
+    rngState = nextState;
+    return value;
+  };
+  return { random, getState: () => rngState };
+};
+
+// === CREATE GAME ===
+export const createGame = (config: Partial<GameConfig> = {}): GameState => {
+  const merged: GameConfig = { ...DEFAULT_GAME_CONFIG, ...config };
+  // More bots than owner ids would wrap around in the ownership grid
+  const fullConfig: GameConfig = { ...merged, botCount: Math.max(0, Math.min(merged.botCount, MAX_BOT_COUNT)) };
+  const { gridWidth, gridHeight, initialTerritorySize } = fullConfig;
+  const { random, getState } = createRandom(seedRandom(fullConfig.seed));
+
+  const ownership = createOwnershipGrid(gridWidth, gridHeight);
+  const snakes: Snake[] = [];
+
+  if (fullConfig.playerName !== null) {
+    const startX = Math.floor(gridWidth / 2);
+    const startY = Math.floor(gridHeight / 2);
+    snakes.push(createSnake(PLAYER_ID, fullConfig.playerName, startX, startY, "RIGHT", fullConfig));
+    claimSquare(ownership, gridWidth, gridHeight, PLAYER_ID, startX, startY, initialTerritorySize);
+  }
+
+  for (let i = 0; i < fullConfig.botCount; i++) {
+    const spawn = findSpawnPoint(ownership, fullConfig, random);
+    if (!spawn) continue;
+
+    const id = PLAYER_ID + 1 + i;
+    const direction = DIRECTIONS[Math.floor(random() * DIRECTIONS.length)];
+    snakes.push(createSnake(id, BOT_NAMES[i % BOT_NAMES.length], spawn[0], spawn[1], direction, fullConfig));
+    claimSquare(ownership, gridWidth, gridHeight, id, spawn[0], spawn[1], initialTerritorySize);
+  }
+
+  return {
+    config: fullConfig,
+    tick: 0,
+    rngState: getState(),
+    ownership,
+    trailGrid: new Uint8Array(gridWidth * gridHeight),
+    snakes: snakes.map(snake => withArea(snake, countOwnedCells(ownership, snake.id))),
+    isGameOver: false,
+    isVictory: false,
+  };
+};
+
+// === ADD A HUMAN TO A SHARED ARENA ===
+// Returns the new state and the id of the spawned snake, or null when the
+// arena has no free spot (or every owner id is taken).
+export const addPlayer = (state: GameState, name: string): { state: GameState; id: number | null } => {
+  const { gridWidth, gridHeight, initialTerritorySize } = state.config;
+  const usedIds = new Set(state.snakes.map(snake => snake.id));
+  let id = PLAYER_ID;
+  while (usedIds.has(id)) id++;
+  if (id > MAX_OWNER_ID) return { state, id: null };
+
+  const { random, getState } = createRandom(state.rngState);
+  const spawn = findSpawnPoint(state.ownership, state.config, random);
+  if (!spawn) return { state: { ...state, rngState: getState() }, id: null };
+
+  const ownership = state.ownership.slice();
+  claimSquare(ownership, gridWidth, gridHeight, id, spawn[0], spawn[1], initialTerritorySize);
+  const direction = DIRECTIONS[Math.floor(random() * DIRECTIONS.length)];
+  const snake: Snake = withArea(
+    { ...createSnake(id, name, spawn[0], spawn[1], direction, state.config), kind: "player", brain: null },
+    countOwnedCells(ownership, id)
+  );
+
+  return {
+    state: { ...state, rngState: getState(), ownership, snakes: [...state.snakes, snake] },
+    id,
+  };
+};
+
+// === REMOVE A SNAKE ===
+// Drops a snake (alive or dead) and frees its land and owner id
+export const removeSnake = (state: GameState, id: number): GameState => {
+  const removed = state.snakes.find(snake => snake.id === id);
+  if (!removed) return state;
+
+  const ownership = state.ownership.slice();
+  for (let cell = 0; cell < ownership.length; cell++) {
+    if (ownership[cell] === id) ownership[cell] = NO_OWNER;
+  }
+  const trailGrid = state.trailGrid.slice();
+  clearTrail(trailGrid, state.config.gridWidth, trailOf(removed), id);
+
+  return { ...state, ownership, trailGrid, snakes: state.snakes.filter(snake => snake.id !== id) };
+};
+
+interface PendingMove {
+  snake: Snake;
+  nowInTerritory: boolean;
+  // Trail to flood fill when the snake has just returned home
+  closedTrail: Point[] | null;
+}
+
+// === MOVE ONE SNAKE ===
+const moveSnake = (state: GameState, snake: Snake, requested: Direction | null): PendingMove => {
+  const { gridWidth, gridHeight } = state.config;
+
+  // Apply requested direction unless it would reverse the snake
+  const direction = requested && !isOppositeDirection(requested, snake.direction)
+    ? requested
+    : snake.direction;
+  const [dx, dy] = DIRECTION_DELTAS[direction];
+  const newX = snake.x + dx;
+  const newY = snake.y + dy;
+  const moved: Snake = { ...snake, direction };
+
+  // Check wall collision
+  if (newX < 0 || newX >= gridWidth || newY < 0 || newY >= gridHeight) {
+    return { snake: withDeath(moved, "wall", state.tick + 1), nowInTerritory: false, closedTrail: null };
+  }
+
+  const currentPos: Point = [snake.x, snake.y];
+  const newPos: Point = [newX, newY];
+  const nowInTerritory = state.ownership[cellIndex(gridWidth, newX, newY)] === snake.id;
+  let closedTrail: Point[] | null = null;
+
+  if (snake.isOutside && !nowInTerritory) {
+    // Still outside, add to trail
+    const last = snake.trailBuffer[snake.trailLength - 1];
+    if (!last || last[0] !== snake.x || last[1] !== snake.y) {
+      Object.assign(moved, extendTrail(snake, currentPos));
+    }
+  } else if (!snake.isOutside && !nowInTerritory) {
+    // Just left territory, start trail
+    moved.trailBuffer = [currentPos];
+    moved.trailLength = 1;
+    moved.isOutside = true;
+  } else if (snake.isOutside && nowInTerritory && snake.trailLength > 0) {
+    // Returned to territory! Capture once collisions are settled
+    closedTrail = [...trailOf(snake), currentPos, newPos];
+    moved.trailBuffer = [];
+    moved.trailLength = 0;
+  }
+
+  if (nowInTerritory) {
+    moved.isOutside = false;
+  }
+
+  moved.x = newX;
+  moved.y = newY;
+  moved.stats = { ...snake.stats, distance: snake.stats.distance + 1 };
+
+  return { snake: moved, nowInTerritory, closedTrail };
+};
+
+// === STEP ===
+// Advances every snake by exactly one grid move. Moves are resolved
+// simultaneously: all snakes move, then trail cuts and head-on collisions are
+// settled, then captures are applied in snake order. Never mutates `state`.
+export const step = (state: GameState, input: GameInput = {}): GameState => {
+  if (state.isGameOver || state.isVictory) return state;
+
+  const { gridWidth, gridHeight } = state.config;
+  const tick = state.tick + 1;
+  let rngState = state.rngState;
+
+  // === MOVE ===
+  const moves: PendingMove[] = state.snakes.map(snake => {
+    if (!snake.isAlive) return { snake, nowInTerritory: false, closedTrail: null };
+
+    if (snake.kind === "bot") {
+      const decision = decideBotMove(state, snake, rngState);
+      rngState = decision.rngState;
+      return moveSnake(state, { ...snake, brain: decision.brain }, decision.direction);
+    }
+    const requested = snake.id === PLAYER_ID && state.config.playerName !== null
+      ? input.direction
+      : input.players?.[snake.id];
+    return moveSnake(state, snake, requested ?? null);
+  });
+
+  const snakes = moves.map(move => move.snake);
+  const movers = moves.filter(move => move.snake.isAlive);
+  // Snake index -> what killed it; the first cause found sticks
+  const eliminated = new Map<number, DeathCause>();
+
+  // === TRAIL CUTS ===
+  // The cell each snake outside its land just left joins its trail. A snake
+  // that just got home stays exposed on those cells until captures settle.
+  const trailGrid = state.trailGrid.slice();
+  moves.forEach(({ snake, closedTrail }, i) => {
+    if (!snake.isAlive || (snake.trailLength === 0 && !closedTrail)) return;
+    const before = state.snakes[i];
+    trailGrid[cellIndex(gridWidth, before.x, before.y)] = snake.id;
+  });
+
+  // Running into any trail (including your own) kills the trail's owner
+  const indexById = new Map(snakes.map((snake, i) => [snake.id, i]));
+  for (const { snake } of movers) {
+    const ownerId = trailGrid[cellIndex(gridWidth, snake.x, snake.y)];
+    if (ownerId === NO_OWNER) continue;
+    const i = indexById.get(ownerId)!;
+    if (!moves[i].snake.isAlive || eliminated.has(i)) continue;
+
+    eliminated.set(i, ownerId === snake.id ? "own-trail" : "opponent");
+    if (ownerId !== snake.id) {
+      const killer = indexById.get(snake.id)!;
+      snakes[killer] = { ...snakes[killer], kills: snakes[killer].kills + 1 };
+    }
+  }
+
+  // === HEAD-ON COLLISIONS ===
+  // A snake standing on its own land survives; otherwise the head dies
+  for (let i = 0; i < movers.length; i++) {
+    for (let j = i + 1; j < movers.length; j++) {
+      const a = movers[i];
+      const b = movers[j];
+      if (a.snake.x !== b.snake.x || a.snake.y !== b.snake.y) continue;
+      for (const mover of [a, b]) {
+        const index = moves.indexOf(mover);
+        if (!mover.nowInTerritory && !eliminated.has(index)) eliminated.set(index, "opponent");
+      }
+    }
+  }
+
+  for (const [i, cause] of eliminated) {
+    snakes[i] = withDeath(snakes[i], cause, tick);
+  }
+
+  // === CAPTURES ===
+  let ownership = state.ownership;
+  const reshaped = new Set<number>();
+
+  moves.forEach(({ closedTrail }, i) => {
+    if (!closedTrail || !snakes[i].isAlive) return;
+
+    const snake = snakes[i];
+    const result = captureTrail(ownership, gridWidth, gridHeight, snake.id, closedTrail);
+    let capturedCells = 0;
+    for (let cell = 0; cell < result.captured.length; cell++) {
+      if (!result.captured[cell]) continue;
+      capturedCells++;
+      const previousOwner = ownership[cell];
+      if (previousOwner !== NO_OWNER && previousOwner !== snake.id) {
+        reshaped.add(previousOwner);
+      }
+    }
+    ownership = result.ownership;
+    snakes[i] = {
+      ...snake,
+      territories: mergeWithTerritories(
+        snake.territories,
+        traceCells(result.captured, gridWidth, gridHeight),
+        result.ownership,
+        gridWidth,
+        gridHeight,
+        snake.id
+      ),
+      stats: {
+        ...snake.stats,
+        captures: snake.stats.captures + 1,
+        largestCapture: Math.max(snake.stats.largestCapture, capturedCells),
+      },
+    };
+  });
+
+  // === ELIMINATIONS ===
+  // Dead snakes leave their land behind as unclaimed cells
+  const deadIds = new Set(
+    snakes.filter((snake, i) => state.snakes[i].isAlive && !snake.isAlive).map(snake => snake.id)
+  );
+  if (deadIds.size > 0) {
+    ownership = ownership === state.ownership ? ownership.slice() : ownership;
+    for (let cell = 0; cell < ownership.length; cell++) {
+      if (deadIds.has(ownership[cell])) ownership[cell] = NO_OWNER;
+    }
+  }
+
+  const ownershipChanged = ownership !== state.ownership;
+  const nextSnakes = snakes.map(snake => {
+    if (deadIds.has(snake.id)) {
+      return { ...snake, trailBuffer: [], trailLength: 0, territories: [], territoryArea: 0, isOutside: false };
+    }
+    if (!snake.isAlive || !ownershipChanged) return snake;
+
+    const territoryArea = countOwnedCells(ownership, snake.id);
+    // Losing every cell eliminates the snake
+    if (territoryArea === 0) {
+      return {
+        ...withDeath(snake, "opponent", tick),
+        trailBuffer: [],
+        trailLength: 0,
+        territories: [],
+        territoryArea,
+        isOutside: false,
+      };
+    }
+    return reshaped.has(snake.id)
+      ? { ...withArea(snake, territoryArea), territories: traceCells(ownership, gridWidth, gridHeight, snake.id) }
+      : withArea(snake, territoryArea);
+  });
+
+  // Closed trails and those of dead snakes leave the grid
+  moves.forEach(({ closedTrail }, i) => {
+    if (nextSnakes[i].trailLength === 0) {
+      clearTrail(trailGrid, gridWidth, closedTrail ?? trailOf(snakes[i]), snakes[i].id);
+    }
+  });
+
+  const hasPlayer = state.config.playerName !== null;
+  const player = nextSnakes[0];
+
+  return {
+    ...state,
+    tick,
+    rngState,
+    ownership,
+    trailGrid,
+    snakes: nextSnakes,
+    isGameOver: hasPlayer && !player.isAlive,
+    isVictory: hasPlayer && player.isAlive &&
+      player.territoryArea * 100 >= state.config.victoryPercentage * gridWidth * gridHeight,
+  };
+};
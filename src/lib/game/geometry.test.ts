@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { DIRECTION_DELTAS, DIRECTIONS, isOppositeDirection } from "./directions";
+import { createGame, step } from "./engine";
+import { createSquarePolygon, isValidTerritory } from "./geometry";
+import { cellIndex, countOwnedCells, NO_OWNER } from "./ownership";
+import { nextRandom, seedRandom } from "./random";
+import type { Direction, GameState, MultiPolygon, Point } from "./types";
+
+const SEEDS = 30;
+const MAX_TICKS = 600;
+const GRID_SIZE = 40;
+// Chance per tick of the player picking a new heading
+const TURN_CHANCE = 0.3;
+
+// === SEEDED RANDOM WALK ===
+// Picks a random heading now and then, never one straight into a wall or
+// the player's own trail, so runs last long enough to close odd shapes
+const walk = (state: GameState, rngState: number): [number, Direction] => {
+  const { gridWidth, gridHeight } = state.config;
+  const player = state.snakes[0];
+  const isSafe = (direction: Direction) => {
+    const [dx, dy] = DIRECTION_DELTAS[direction];
+    const x = player.x + dx;
+    const y = player.y + dy;
+    return x >= 0 && y >= 0 && x < gridWidth && y < gridHeight &&
+      state.trailGrid[cellIndex(gridWidth, x, y)] !== player.id &&
+      !isOppositeDirection(direction, player.direction);
+  };
+
+  let [rng, roll] = nextRandom(rngState);
+  const safe = DIRECTIONS.filter(isSafe);
+  if (safe.length === 0) return [rng, player.direction];
+  if (roll >= TURN_CHANCE && safe.includes(player.direction)) return [rng, player.direction];
+
+  [rng, roll] = nextRandom(rng);
+  return [rng, safe[Math.floor(roll * safe.length)]];
+};
+
+// === INDEPENDENT RASTERIZATION ===
+// Fills each polygon row by row through the cell centres, sharing nothing
+// with geometry.ts, and counts how many polygons cover every cell
+const rasterize = (territories: MultiPolygon, gridWidth: number, gridHeight: number): Uint8Array => {
+  const coverage = new Uint8Array(gridWidth * gridHeight);
+  for (const polygon of territories) {
+    const edges = polygon.flatMap(ring => ring.slice(1).map((end, i): [Point, Point] => [ring[i], end]));
+    for (let y = 0; y < gridHeight; y++) {
+      const centreY = y + 0.5;
+      const xs = edges
+        .filter(([[, y0], [, y1]]) => (y0 < centreY) !== (y1 < centreY))
+        .map(([[x0, y0], [x1, y1]]) => x0 + ((centreY - y0) * (x1 - x0)) / (y1 - y0))
+        .sort((a, b) => a - b);
+      for (let i = 0; i + 1 < xs.length; i += 2) {
+        const end = Math.min(gridWidth, xs[i + 1] - 0.5);
+        for (let x = Math.max(0, Math.ceil(xs[i] - 0.5)); x < end; x++) coverage[cellIndex(gridWidth, x, y)]++;
+      }
+    }
+  }
+  return coverage;
+};
+
+// Grid with `ownerId` holding the given cells
+const ownershipOf = (cells: Point[], size: number, ownerId = 1) => {
+  const ownership = new Uint8Array(size * size);
+  cells.forEach(([x, y]) => (ownership[cellIndex(size, x, y)] = ownerId));
+  return ownership;
+};
+
+// === VALIDATION ===
+describe("isValidTerritory", () => {
+  const SIZE = 6;
+  const square = ownershipOf([[1, 1], [2, 1], [3, 1], [1, 2], [2, 2], [3, 2], [1, 3], [2, 3], [3, 3]], SIZE);
+
+  it("accepts a square covering exactly the owned cells", () => {
+    expect(isValidTerritory([createSquarePolygon(2, 2, 3)], square, SIZE, SIZE, 1)).toBe(true);
+    expect(isValidTerritory([createSquarePolygon(2, 2, 1)], square, SIZE, SIZE, 1)).toBe(false);
+  });
+
+  it("rejects polygons that overlap", () => {
+    // Together they cover the square, but the middle row twice
+    const top: Point[] = [[1, 1], [4, 1], [4, 3], [1, 3], [1, 1]];
+    const bottom: Point[] = [[1, 2], [4, 2], [4, 4], [1, 4], [1, 2]];
+    expect(isValidTerritory([[top], [bottom]], square, SIZE, SIZE, 1)).toBe(false);
+  });
+
+  it("rejects rings that cross themselves or each other", () => {
+    // A figure eight whose even-odd fill is exactly the two cells owned
+    const bowtie: Point[] = [[1, 1], [2, 1], [2, 3], [3, 3], [3, 2], [1, 2], [1, 1]];
+    const corners = ownershipOf([[1, 1], [2, 2]], SIZE);
+    expect(isValidTerritory([[bowtie]], corners, SIZE, SIZE, 1)).toBe(false);
+
+    // A hole poking out through the side of its outer ring
+    const outer: Point[] = [[1, 1], [4, 1], [4, 4], [1, 4], [1, 1]];
+    const hole: Point[] = [[2, 2], [2, 3], [5, 3], [5, 2], [2, 2]];
+    const notched = ownershipOf([[1, 1], [2, 1], [3, 1], [1, 2], [1, 3], [2, 3], [3, 3], [4, 2]], SIZE);
+    expect(isValidTerritory([[outer, hole]], notched, SIZE, SIZE, 1)).toBe(false);
+
+    // An edge doubling back along itself
+    const spike: Point[] = [[1, 1], [4, 1], [4, 4], [1, 4], [1, 5], [1, 1]];
+    expect(isValidTerritory([[spike]], square, SIZE, SIZE, 1)).toBe(false);
+  });
+
+  it("rejects open, diagonal or out of bounds rings", () => {
+    const open: Point[] = [[1, 1], [4, 1], [4, 4], [1, 4]];
+    const diagonal: Point[] = [[1, 1], [4, 1], [4, 4], [1, 1]];
+    const outside: Point[] = [[1, 1], [7, 1], [7, 4], [1, 4], [1, 1]];
+    for (const ring of [open, diagonal, outside]) {
+      expect(isValidTerritory([[ring]], square, SIZE, SIZE, 1)).toBe(false);
+    }
+  });
+});
+
+// === TERRITORY INVARIANTS ===
+describe("territories", () => {
+  it("stay valid and match the grid after every step of seeded games with bots", () => {
+    let captures = 0;
+
+    for (let seed = 1; seed <= SEEDS; seed++) {
+      let state = createGame({ gridWidth: GRID_SIZE, gridHeight: GRID_SIZE, botCount: 3, seed, playerName: "Walker" });
+      let rng = seedRandom(seed);
+
+      for (let tick = 0; tick < MAX_TICKS && !state.isGameOver && !state.isVictory; tick++) {
+        let direction: Direction;
+        [rng, direction] = walk(state, rng);
+        state = step(state, { direction });
+
+        for (const snake of state.snakes) {
+          const context = `seed ${seed}, tick ${state.tick}, snake ${snake.id}`;
+          expect(countOwnedCells(state.ownership, snake.id), context).toBe(snake.isAlive ? snake.territoryArea : 0);
+          if (!snake.isAlive) continue;
+          expect(
+            isValidTerritory(snake.territories, state.ownership, GRID_SIZE, GRID_SIZE, snake.id),
+            context
+          ).toBe(true);
+          // Checked again without isValidTerritory, so a flaw in it cannot
+          // hide one in the territories
+          const coverage = rasterize(snake.territories, GRID_SIZE, GRID_SIZE);
+          const mismatch = state.ownership.findIndex(
+            (owner, cell) => coverage[cell] > 1 || (owner === snake.id) !== (coverage[cell] === 1)
+          );
+          expect(mismatch, context).toBe(-1);
+        }
+        // Every owned cell belongs to a snake that is still in the game
+        const alive = new Set(state.snakes.filter(snake => snake.isAlive).map(snake => snake.id));
+        expect(state.ownership.every(owner => owner === NO_OWNER || alive.has(owner))).toBe(true);
+      }
+
+      captures += state.snakes.reduce((total, snake) => total + snake.stats.captures, 0);
+    }
+
+    // The walk has to close trails for the check to mean anything
+    expect(captures).toBeGreaterThan(SEEDS);
+  });
+});
@@ -0,0 +1,363 @@
+import * as martinez from "martinez-polygon-clipping";
+import type { MultiPolygon, Point, Polygon } from "./types";
+
+// === TRACE CELL MASK INTO POLYGONS ===
+// Walks the boundary edges of every 4-connected group of cells holding
+// `value`, producing one outer ring plus one ring per hole. Outer rings run
+// clockwise on screen and holes counter-clockwise; collinear vertices are
+// dropped.
+export const traceCells = (
+  mask: Uint8Array,
+  gridWidth: number,
+  gridHeight: number,
+  value = 1
+): MultiPolygon => {
+  const filled = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < gridWidth && y < gridHeight && mask[y * gridWidth + x] === value;
+
+  // Label 4-connected components so rings can be grouped into polygons
+  const labels = new Int32Array(gridWidth * gridHeight).fill(-1);
+  let componentCount = 0;
+  const stack: number[] = [];
+
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] !== value || labels[i] !== -1) continue;
+    labels[i] = componentCount;
+    stack.push(i);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const cx = index % gridWidth;
+      const cy = (index - cx) / gridWidth;
+      for (const [nx, ny] of [[cx + 1, cy], [cx - 1, cy], [cx, cy + 1], [cx, cy - 1]]) {
+        if (filled(nx, ny) && labels[ny * gridWidth + nx] === -1) {
+          labels[ny * gridWidth + nx] = componentCount;
+          stack.push(ny * gridWidth + nx);
+        }
+      }
+    }
+    componentCount++;
+  }
+
+  // Directed boundary edges keyed by their start vertex, interior on the right
+  const vertexKey = (x: number, y: number) => y * (gridWidth + 1) + x;
+  const edges = new Map<number, { to: Point; label: number }[]>();
+  const addEdge = (from: Point, to: Point, label: number) => {
+    const key = vertexKey(from[0], from[1]);
+    const list = edges.get(key);
+    if (list) list.push({ to, label });
+    else edges.set(key, [{ to, label }]);
+  };
+
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      if (!filled(x, y)) continue;
+      const label = labels[y * gridWidth + x];
+      if (!filled(x, y - 1)) addEdge([x, y], [x + 1, y], label);
+      if (!filled(x + 1, y)) addEdge([x + 1, y], [x + 1, y + 1], label);
+      if (!filled(x, y + 1)) addEdge([x + 1, y + 1], [x, y + 1], label);
+      if (!filled(x - 1, y)) addEdge([x, y + 1], [x, y], label);
+    }
+  }
+
+  const outers: (Point[] | null)[] = new Array(componentCount).fill(null);
+  const holes: Point[][][] = Array.from({ length: componentCount }, () => []);
+
+  for (const [startKey, startList] of edges) {
+    while (startList.length > 0) {
+      const first = startList.pop()!;
+      const startX = startKey % (gridWidth + 1);
+      const startY = (startKey - startX) / (gridWidth + 1);
+      const ring: Point[] = [[startX, startY]];
+      let prev: Point = [startX, startY];
+      let current = first.to;
+
+      while (current[0] !== startX || current[1] !== startY) {
+        ring.push(current);
+        const list = edges.get(vertexKey(current[0], current[1]))!;
+        // At a pinch vertex prefer the right turn so diagonal cells stay apart
+        let choice = 0;
+        if (list.length > 1) {
+          const dx = current[0] - prev[0];
+          const dy = current[1] - prev[1];
+          choice = list.findIndex(({ to }) =>
+            dx * (to[1] - current[1]) - dy * (to[0] - current[0]) > 0
+          );
+          if (choice === -1) choice = 0;
+        }
+        const [next] = list.splice(choice, 1);
+        prev = current;
+        current = next.to;
+      }
+
+      const simplified = removeCollinearPoints(ring);
+      if (ringArea(simplified) > 0) {
+        outers[first.label] = simplified;
+      } else {
+        holes[first.label].push(simplified);
+      }
+    }
+  }
+
+  const result: MultiPolygon = [];
+  for (let label = 0; label < componentCount; label++) {
+    const outer = outers[label];
+    if (!outer) continue;
+    result.push([outer, ...holes[label]].map(ring => [...ring, [ring[0][0], ring[0][1]] as Point]));
+  }
+  return result;
+};
+
+// Drops vertices lying on a straight line between their neighbours (open ring)
+const removeCollinearPoints = (ring: Point[]): Point[] => {
+  return ring.filter((point, i) => {
+    const before = ring[(i - 1 + ring.length) % ring.length];
+    const after = ring[(i + 1) % ring.length];
+    return (point[0] - before[0]) * (after[1] - point[1]) !==
+      (point[1] - before[1]) * (after[0] - point[0]);
+  });
+};
+
+// Signed shoelace area; positive for clockwise rings on screen (y down)
+export const ringArea = (ring: Point[]): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return sum / 2;
+};
+
+// === SIMPLIFICATION ===
+// Drops repeated and collinear vertices from a closed ring, or returns null
+// when nothing with an area is left
+const simplifyRing = (ring: Point[]): Point[] | null => {
+  const open = ring.filter((point, i) => {
+    const before = ring[(i - 1 + ring.length) % ring.length];
+    return point[0] !== before[0] || point[1] !== before[1];
+  });
+  const simplified = open.length >= 3 ? removeCollinearPoints(open) : [];
+  if (simplified.length < 3 || ringArea(simplified) === 0) return null;
+  return [...simplified, [simplified[0][0], simplified[0][1]]];
+};
+
+// Polygons whose outer ring has no area are dropped, as are empty holes
+const simplifyTerritories = (territories: MultiPolygon): MultiPolygon => {
+  const result: MultiPolygon = [];
+  for (const polygon of territories) {
+    const [outer, ...holes] = polygon.map(simplifyRing);
+    if (outer) result.push([outer, ...holes.filter(Boolean)]);
+  }
+  return result;
+};
+
+// === SELF-INTERSECTION REPAIR ===
+// Cell outlines can only cross themselves by passing through the same vertex
+// twice (two cells touching diagonally), and clipping does not always wind
+// the loops either side of such a pinch consistently. Every pinch is cut
+// into separate rings, which are then regrouped by how deeply they nest:
+// rings inside an even number of others are outers, the rest holes of the
+// smallest outer around them. Outers end up clockwise on screen and holes
+// counter-clockwise, as traceCells draws them.
+const splitAtPinches = (ring: Point[]): Point[][] => {
+  const rings: Point[][] = [];
+  const path: Point[] = [];
+  const seen = new Map<string, number>();
+
+  for (const point of ring.slice(0, -1)) {
+    const key = `${point[0]},${point[1]}`;
+    const loopStart = seen.get(key);
+    if (loopStart === undefined) {
+      seen.set(key, path.length);
+      path.push(point);
+      continue;
+    }
+    const loop = path.splice(loopStart + 1);
+    for (const [x, y] of loop) seen.delete(`${x},${y}`);
+    rings.push([path[loopStart], ...loop, path[loopStart]]);
+  }
+  if (path.length > 0) rings.push([...path, path[0]]);
+  return rings;
+};
+
+// Even-odd test; only called with cell centres, which never lie on an edge
+const containsPoint = (ring: Point[], x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Centre of a cell just inside the ring, next to its first edge
+const cellInside = (ring: Point[]): [number, number] => {
+  const dx = Math.sign(ring[1][0] - ring[0][0]);
+  const dy = Math.sign(ring[1][1] - ring[0][1]);
+  const right: [number, number] = [ring[0][0] + (dx - dy) / 2, ring[0][1] + (dy + dx) / 2];
+  const left: [number, number] = [ring[0][0] + (dx + dy) / 2, ring[0][1] + (dy - dx) / 2];
+  return containsPoint(ring, ...right) ? right : left;
+};
+
+const windTo = (ring: Point[], sign: number): Point[] =>
+  Math.sign(ringArea(ring)) === sign ? ring : [...ring].reverse();
+
+const repairSelfIntersections = (territories: MultiPolygon): MultiPolygon => {
+  const rings: Point[][] = [];
+  for (const ring of territories.flat()) {
+    for (const part of splitAtPinches(ring)) {
+      const simplified = simplifyRing(part);
+      if (simplified) rings.push(simplified);
+    }
+  }
+
+  const samples = rings.map(cellInside);
+  const depths = samples.map(([x, y], i) =>
+    rings.filter((other, j) => j !== i && containsPoint(other, x, y)).length
+  );
+
+  const outers = rings.filter((_, i) => depths[i] % 2 === 0).map(ring => windTo(ring, 1));
+  const polygons: Polygon[] = outers.map(outer => [outer]);
+  const areas = outers.map(ringArea);
+  rings.forEach((ring, i) => {
+    if (depths[i] % 2 === 0) return;
+    const [x, y] = samples[i];
+    let container = -1;
+    outers.forEach((outer, j) => {
+      if (containsPoint(outer, x, y) && (container === -1 || areas[j] < areas[container])) container = j;
+    });
+    if (container !== -1) polygons[container].push(windTo(ring, -1));
+  });
+  return polygons;
+};
+
+// === VALIDATION ===
+// A territory is valid when it is made of closed, axis-aligned rings on
+// whole cell corners that neither cross nor run along one another within a
+// polygon, and covers every cell `ownerId` holds exactly once, and no other
+// cell.
+export const isValidTerritory = (
+  territories: MultiPolygon,
+  ownership: Uint8Array,
+  gridWidth: number,
+  gridHeight: number,
+  ownerId: number
+): boolean => {
+  const coverage = new Uint8Array(gridWidth * gridHeight);
+  // Per-polygon crossings: each vertical edge flips the cells to its right
+  const crossings = new Uint8Array(gridWidth * gridHeight);
+  // Unit steps along the edges, and corners an edge runs through rather than
+  // ends at, marked with the polygon they were seen in. Even-odd filling
+  // hides edges that cross or run along each other, so they are caught here.
+  const cornerWidth = gridWidth + 1;
+  const corners = cornerWidth * (gridHeight + 1);
+  const [verticalSteps, horizontalSteps] = [new Uint32Array(corners), new Uint32Array(corners)];
+  const [verticalPasses, horizontalPasses] = [new Uint32Array(corners), new Uint32Array(corners)];
+  let mark = 0;
+
+  for (const polygon of territories) {
+    mark++;
+    let minX = gridWidth;
+    let maxX = 0;
+    let minY = gridHeight;
+    let maxY = 0;
+
+    for (const ring of polygon) {
+      const [first, last] = [ring[0], ring[ring.length - 1]];
+      if (ring.length < 4 || first[0] !== last[0] || first[1] !== last[1]) return false;
+      if (!Number.isInteger(first[0]) || !Number.isInteger(first[1])) return false;
+
+      for (let i = 1; i < ring.length; i++) {
+        const [x0, y0] = ring[i - 1];
+        const [x1, y1] = ring[i];
+        if (!Number.isInteger(x1) || !Number.isInteger(y1)) return false;
+        if (x1 < 0 || y1 < 0 || x1 > gridWidth || y1 > gridHeight) return false;
+        if (x0 !== x1 && y0 !== y1) return false;
+
+        const [steps, passed, crossed] = x0 === x1
+          ? [verticalSteps, verticalPasses, horizontalPasses]
+          : [horizontalSteps, horizontalPasses, verticalPasses];
+        const [dx, dy] = [Math.sign(x1 - x0), Math.sign(y1 - y0)];
+        for (let x = x0, y = y0; x !== x1 || y !== y1; x += dx, y += dy) {
+          if (x !== x0 || y !== y0) {
+            const corner = y * cornerWidth + x;
+            if (crossed[corner] === mark) return false;
+            passed[corner] = mark;
+          }
+          // A step is named by whichever of its two corners is nearer the origin
+          const unit = Math.min(y, y + dy) * cornerWidth + Math.min(x, x + dx);
+          if (steps[unit] === mark) return false;
+          steps[unit] = mark;
+        }
+
+        minX = Math.min(minX, x1);
+        maxX = Math.max(maxX, x1);
+        minY = Math.min(minY, y1);
+        maxY = Math.max(maxY, y1);
+        if (x0 !== x1 || x1 === gridWidth) continue;
+        for (let y = Math.min(y0, y1); y < Math.max(y0, y1); y++) crossings[y * gridWidth + x1] ^= 1;
+      }
+    }
+
+    for (let y = minY; y < maxY; y++) {
+      let inside = 0;
+      for (let x = minX; x <= Math.min(maxX, gridWidth - 1); x++) {
+        const cell = y * gridWidth + x;
+        inside ^= crossings[cell];
+        crossings[cell] = 0;
+        if (inside && ++coverage[cell] > 1) return false;
+      }
+    }
+  }
+
+  for (let cell = 0; cell < ownership.length; cell++) {
+    if ((ownership[cell] === ownerId) !== (coverage[cell] === 1)) return false;
+  }
+  return true;
+};
+
+// === MERGE NEW AREA WITH EXISTING TERRITORIES ===
+// Unions `newArea` into the territory, simplifying the inputs and repairing
+// the result. Whenever clipping throws or produces a territory that does not
+// match the grid, the outline is traced from `ownership` instead, so a bad
+// merge never outlives the capture that caused it.
+export const mergeWithTerritories = (
+  existingTerritories: MultiPolygon,
+  newArea: MultiPolygon,
+  ownership: Uint8Array,
+  gridWidth: number,
+  gridHeight: number,
+  ownerId: number
+): MultiPolygon => {
+  const existing = simplifyTerritories(existingTerritories);
+  const added = simplifyTerritories(newArea);
+  let merged: MultiPolygon | null = null;
+
+  try {
+    merged = existing.length === 0
+      ? added
+      : (martinez.union(existing as martinez.Geometry, added as martinez.Geometry) as MultiPolygon);
+  } catch (e) {
+    console.warn("Polygon merge failed, tracing territory from the grid", e);
+  }
+
+  if (merged && merged.length > 0) {
+    const repaired = repairSelfIntersections(merged);
+    if (isValidTerritory(repaired, ownership, gridWidth, gridHeight, ownerId)) return repaired;
+    console.warn("Polygon merge produced an invalid territory, tracing it from the grid");
+  }
+
+  return traceCells(ownership, gridWidth, gridHeight, ownerId);
+};
+
+// === SQUARE POLYGON AROUND A CELL ===
+export const createSquarePolygon = (centerX: number, centerY: number, size: number): Polygon => {
+  const halfSize = Math.floor(size / 2);
+
+  return [[
+    [centerX - halfSize, centerY - halfSize],
+    [centerX + halfSize + 1, centerY - halfSize],
+    [centerX + halfSize + 1, centerY + halfSize + 1],
+    [centerX - halfSize, centerY + halfSize + 1],
+    [centerX - halfSize, centerY - halfSize], // Close the polygon
+  ]];
+};
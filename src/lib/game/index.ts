@@ -0,0 +1,31 @@
+export * from "./types";
+export { createGame, step, addPlayer, removeSnake, DEFAULT_GAME_CONFIG, PLAYER_ID } from "./engine";
+export { isOppositeDirection } from "./directions";
+export * from "./selectors";
+export { randomSeed } from "./random";
+export { NO_OWNER } from "./ownership";
+export { traceCells } from "./geometry";
+export { trailOf } from "./trails";
+export { createReplayPlayer, createReplayRecorder, parseReplay, type Replay, type ReplayPlayer } from "./replay";
+export { createFixedStepClock, type FixedStepClock } from "./clock";
+export { canQueueTurn, createTurnQueue, MAX_QUEUED_TURNS, steerTowards, type TurnQueue } from "./turns";
+export {
+  checkRunEnd,
+  modeTickMs,
+  GAME_MODES,
+  RACE_TARGET_PERCENTAGE,
+  TIMED_DURATION_MS,
+  type GameMode,
+  type RunEndReason,
+  type RunOutcome,
+} from "./modes";
+export {
+  createLocalRun,
+  HISTORY_INTERVAL_MS,
+  type LocalFrame,
+  type LocalRun,
+  type LocalRunOptions,
+  type RunEnding,
+  type RunResult,
+  type TerritorySample,
+} from "./run";
@@ -0,0 +1,71 @@
+import { PLAYER_ID } from "./engine";
+import {
+  selectAliveSnakes,
+  selectIsGameOver,
+  selectIsVictory,
+  selectPlayer,
+  selectSnakePercentage,
+} from "./selectors";
+import type { GameState } from "./types";
+
+// === GAME MODES ===
+// Rules for when a local run ends, layered on top of the engine. Time is
+// game time (ticks times their length), so the same inputs always end the
+// same way.
+export type GameMode = "classic" | "timed" | "race" | "survival";
+
+export const TIMED_DURATION_MS = 3 * 60 * 1000;
+export const RACE_TARGET_PERCENTAGE = 25;
+// Survival speeds up by one cell per second every interval, up to the cap
+const SURVIVAL_SPEEDUP_INTERVAL_MS = 20 * 1000;
+const SURVIVAL_MAX_SPEED = 25;
+
+export const GAME_MODES: Record<GameMode, { label: string; description: string }> = {
+  classic: { label: "Classic", description: "Grab as much as you can before you fall" },
+  timed: { label: "Timed", description: `Hold the most territory after ${TIMED_DURATION_MS / 60000} minutes` },
+  race: { label: "Race", description: `First to ${RACE_TARGET_PERCENTAGE}% wins` },
+  survival: { label: "Survival", description: "Stay alive while the pace keeps rising" },
+};
+
+export type RunEndReason = "died" | "conquered" | "time-up" | "target-reached" | "beaten";
+
+export interface RunOutcome {
+  reason: RunEndReason;
+  won: boolean;
+}
+
+// How the run ended after `elapsedMs` of game time, or null while it goes on
+export const checkRunEnd = (mode: GameMode, state: GameState, elapsedMs: number): RunOutcome | null => {
+  if (selectIsGameOver(state)) return { reason: "died", won: false };
+  // Reaching the configured share of the arena wins in every mode
+  if (selectIsVictory(state)) return { reason: "conquered", won: true };
+
+  const player = selectPlayer(state);
+  const playerPercentage = player ? selectSnakePercentage(state, player) : 0;
+
+  switch (mode) {
+    case "timed": {
+      if (elapsedMs < TIMED_DURATION_MS) return null;
+      // Ties go to the player
+      const best = Math.max(...selectAliveSnakes(state).map(snake => snake.territoryArea));
+      return { reason: "time-up", won: !!player && player.territoryArea >= best };
+    }
+    case "race": {
+      if (playerPercentage >= RACE_TARGET_PERCENTAGE) return { reason: "target-reached", won: true };
+      const rivalFinished = selectAliveSnakes(state).some(
+        snake => snake.id !== PLAYER_ID && selectSnakePercentage(state, snake) >= RACE_TARGET_PERCENTAGE
+      );
+      return rivalFinished ? { reason: "beaten", won: false } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Milliseconds per step once `elapsedMs` of the run have passed
+export const modeTickMs = (mode: GameMode, baseTickMs: number, elapsedMs: number): number => {
+  if (mode !== "survival") return baseTickMs;
+  const baseSpeed = 1000 / baseTickMs;
+  const speed = Math.min(SURVIVAL_MAX_SPEED, baseSpeed + Math.floor(elapsedMs / SURVIVAL_SPEEDUP_INTERVAL_MS));
+  return 1000 / speed;
+};
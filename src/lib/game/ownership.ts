@@ -0,0 +1,126 @@
+import type { Point } from "./types";
+
+// Owner id stored for cells nobody has claimed
+export const NO_OWNER = 0;
+
+// === OWNERSHIP GRID ===
+// One byte per cell holding the id of the snake that owns it. This is the
+// authoritative territory model; polygons are only derived for rendering.
+export const createOwnershipGrid = (gridWidth: number, gridHeight: number): Uint8Array => {
+  return new Uint8Array(gridWidth * gridHeight);
+};
+
+export const cellIndex = (gridWidth: number, x: number, y: number): number => {
+  return y * gridWidth + x;
+};
+
+// Claims the square of `size` cells centred on (centerX, centerY)
+export const claimSquare = (
+  ownership: Uint8Array,
+  gridWidth: number,
+  gridHeight: number,
+  ownerId: number,
+  centerX: number,
+  centerY: number,
+  size: number
+) => {
+  const halfSize = Math.floor(size / 2);
+
+  for (let y = centerY - halfSize; y <= centerY + halfSize; y++) {
+    for (let x = centerX - halfSize; x <= centerX + halfSize; x++) {
+      if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) continue;
+      ownership[cellIndex(gridWidth, x, y)] = ownerId;
+    }
+  }
+};
+
+export const countOwnedCells = (ownership: Uint8Array, ownerId: number): number => {
+  let count = 0;
+  for (let i = 0; i < ownership.length; i++) {
+    if (ownership[i] === ownerId) count++;
+  }
+  return count;
+};
+
+export interface CaptureResult {
+  // Updated ownership grid (the input grid is left untouched)
+  ownership: Uint8Array;
+  // 1 for every cell claimed by this capture, trail included
+  captured: Uint8Array;
+}
+
+// === CAPTURE BY FLOOD FILL ===
+// Paper.io capture: the trail cells plus every region the trail seals off
+// against the owner's territory. Everything the owner does not hold is split
+// into 4-connected regions around the trail; the "outside" is the largest
+// region touching the arena edge (or the largest region at all when none
+// does) and every other region next to the trail is captured, including
+// holes and opponent land the loop encloses.
+export const captureTrail = (
+  ownership: Uint8Array,
+  gridWidth: number,
+  gridHeight: number,
+  ownerId: number,
+  trail: Point[]
+): CaptureResult => {
+  const captured = new Uint8Array(gridWidth * gridHeight);
+  const blocked = (index: number) => ownership[index] === ownerId || captured[index] === 1;
+
+  for (const [x, y] of trail) {
+    if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) continue;
+    captured[cellIndex(gridWidth, x, y)] = 1;
+  }
+
+  // Collect the regions bordering the trail
+  const regionOf = new Int32Array(gridWidth * gridHeight).fill(-1);
+  const regions: { cells: number[]; touchesEdge: boolean }[] = [];
+
+  const floodRegion = (seed: number) => {
+    const region = { cells: [seed], touchesEdge: false };
+    regionOf[seed] = regions.length;
+    for (let k = 0; k < region.cells.length; k++) {
+      const index = region.cells[k];
+      const x = index % gridWidth;
+      const y = (index - x) / gridWidth;
+      if (x === 0 || y === 0 || x === gridWidth - 1 || y === gridHeight - 1) {
+        region.touchesEdge = true;
+      }
+      for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+        if (nx < 0 || ny < 0 || nx >= gridWidth || ny >= gridHeight) continue;
+        const next = cellIndex(gridWidth, nx, ny);
+        if (blocked(next) || regionOf[next] !== -1) continue;
+        regionOf[next] = regions.length;
+        region.cells.push(next);
+      }
+    }
+    regions.push(region);
+  };
+
+  for (const [x, y] of trail) {
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (nx < 0 || ny < 0 || nx >= gridWidth || ny >= gridHeight) continue;
+      const index = cellIndex(gridWidth, nx, ny);
+      if (!blocked(index) && regionOf[index] === -1) floodRegion(index);
+    }
+  }
+
+  // Pick the region that stays outside
+  const edgeRegions = regions.filter(region => region.touchesEdge);
+  const candidates = edgeRegions.length > 0 ? edgeRegions : regions;
+  const outside = candidates.reduce<typeof regions[number] | null>(
+    (largest, region) => (!largest || region.cells.length > largest.cells.length ? region : largest),
+    null
+  );
+
+  for (const region of regions) {
+    if (region === outside) continue;
+    for (const index of region.cells) captured[index] = 1;
+  }
+
+  const next = ownership.slice();
+  for (let i = 0; i < captured.length; i++) {
+    if (captured[i]) next[i] = ownerId;
+  }
+
+  return { ownership: next, captured };
+};
@@ -0,0 +1,20 @@
+// Mulberry32: small, fast and fully reproducible from a 32-bit state.
+// Returns the next state together with a float in [0, 1).
+export const nextRandom = (rngState: number): [number, number] => {
+  const state = (rngState + 0x6d2b79f5) | 0;
+  let t = state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [state, value];
+};
+
+// Normalize any numeric seed into a 32-bit generator state
+export const seedRandom = (seed: number): number => {
+  return Math.floor(seed) | 0;
+};
+
+// Pick a fresh seed for games that do not need to be reproduced
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) | 0;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "./engine";
+import { createReplayPlayer, createReplayRecorder, parseReplay } from "./replay";
+
+// A short recorded run to tamper with
+const recordRun = () => {
+  let state = createGame({ gridWidth: 30, gridHeight: 30, seed: 7, botCount: 2 });
+  const recorder = createReplayRecorder(state.config, "survival", 100);
+  for (const direction of ["UP", null, "LEFT", null] as const) {
+    recorder.record(direction);
+    state = step(state, { direction });
+  }
+  return JSON.parse(JSON.stringify(recorder.finish()));
+};
+
+describe("parseReplay", () => {
+  it("reads back a recorded replay", () => {
+    const replay = recordRun();
+    expect(parseReplay(JSON.stringify(replay))).toEqual(replay);
+  });
+
+  it.each([
+    ["a negative width", { gridWidth: -5 }],
+    ["a fractional height", { gridHeight: 20.5 }],
+    ["a text seed", { seed: "abc" }],
+    ["an unknown bot difficulty", { botDifficulty: "nightmare" }],
+    ["a missing bot count", { botCount: undefined }],
+    ["more bots than the game plays with", { botCount: 300 }],
+    ["an arena larger than the game offers", { gridWidth: 5000 }],
+    ["a starting square larger than the settings allow", { initialTerritorySize: 999 }],
+  ])("rejects a config with %s", (_, change) => {
+    const replay = recordRun();
+    const text = JSON.stringify({ ...replay, config: { ...replay.config, ...change } });
+    expect(() => parseReplay(text)).toThrow("Replay file is incomplete or damaged");
+  });
+
+  it.each([
+    ["inputs it cannot decode", { inputs: "3U?L" }],
+    ["a run longer than any replay", { inputs: "999999999999U", ticks: 999999999999 }],
+    ["more ticks than any replay", { inputs: "100000.", ticks: 100000 }],
+    ["fewer inputs than ticks", { inputs: "3U", ticks: 4 }],
+    ["more inputs than ticks", { inputs: "5U", ticks: 4 }],
+  ])("rejects %s", (_, change) => {
+    const text = JSON.stringify({ ...recordRun(), ...change });
+    expect(() => parseReplay(text)).toThrow("Replay file is incomplete or damaged");
+  });
+
+  it("rejects anything that is not a replay", () => {
+    expect(() => parseReplay("{")).toThrow("not valid JSON");
+    expect(() => parseReplay("null")).toThrow("unsupported version");
+    expect(() => parseReplay(JSON.stringify({ ...recordRun(), version: 99 }))).toThrow("unsupported version");
+    // Version 1 did not record the pace a run was played at
+    expect(() => parseReplay(JSON.stringify({ ...recordRun(), version: 1 }))).toThrow("unsupported version");
+  });
+});
+
+describe("createReplayPlayer", () => {
+  it("times ticks at the recorded pace", () => {
+    const replay = { ...parseReplay(JSON.stringify(recordRun())), mode: "classic" as const, baseTickMs: 50 };
+    const player = createReplayPlayer(replay);
+    expect(player.tickMsAt(0)).toBe(50);
+    expect(player.timeAt(player.ticks)).toBe(50 * player.ticks);
+  });
+
+  it("speeds survival runs up as they go", () => {
+    const replay = { ...parseReplay(JSON.stringify(recordRun())), ticks: 300, inputs: "300." };
+    const player = createReplayPlayer(replay);
+    expect(player.tickMsAt(299)).toBeLessThan(player.tickMsAt(0));
+  });
+
+  it("gives the same states whichever order ticks are asked for in", () => {
+    // Bots only, so nothing ends the game early
+    const recorded = parseReplay(JSON.stringify(recordRun()));
+    const replay = { ...recorded, config: { ...recorded.config, playerName: null }, ticks: 130, inputs: "130." };
+    const scrubbed = createReplayPlayer(replay);
+    // Forward frame by frame, back across a checkpoint, then forward again
+    for (const tick of [1, 0, 2, 1, 3, 2, 120, 119, 60, 49, 50, 51, 130, 129]) {
+      const fresh = createReplayPlayer(replay).stateAt(tick);
+      const state = scrubbed.stateAt(tick);
+      expect(state.tick).toBe(tick);
+      expect(state.ownership).toEqual(fresh.ownership);
+      expect(state.snakes.map(snake => [snake.x, snake.y, snake.trailLength])).toEqual(
+        fresh.snakes.map(snake => [snake.x, snake.y, snake.trailLength])
+      );
+    }
+  });
+});
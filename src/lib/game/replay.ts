@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { createGame, step } from "./engine";
+import { modeTickMs, type GameMode } from "./modes";
+import { typedSchema } from "../schema";
+import type { Direction, GameConfig, GameState } from "./types";
+
+export const REPLAY_VERSION = 2;
+
+// === REPLAY FORMAT ===
+// The engine is deterministic, so a run is fully described by its config
+// (which holds the seed) and the turn the player requested on every tick.
+// The mode and starting step length give the pace the run was played at.
+export interface Replay {
+  version: typeof REPLAY_VERSION;
+  config: GameConfig;
+  mode: GameMode;
+  baseTickMs: number;
+  // Number of simulated ticks
+  ticks: number;
+  // Run-length encoded turns, one symbol per tick: U/D/L/R, or "." for none.
+  // A count prefixes repeated symbols, e.g. "12.U3.R".
+  inputs: string;
+  // ISO timestamp of when the run ended
+  recordedAt: string;
+}
+
+const DIRECTION_SYMBOLS: Record<Direction, string> = { UP: "U", DOWN: "D", LEFT: "L", RIGHT: "R" };
+const SYMBOL_DIRECTIONS: Record<string, Direction | null> = { U: "UP", D: "DOWN", L: "LEFT", R: "RIGHT", ".": null };
+
+export const encodeInputs = (inputs: (Direction | null)[]): string => {
+  let encoded = "";
+  for (let i = 0; i < inputs.length;) {
+    let run = 1;
+    while (i + run < inputs.length && inputs[i + run] === inputs[i]) run++;
+    encoded += `${run > 1 ? run : ""}${inputs[i] ? DIRECTION_SYMBOLS[inputs[i]] : "."}`;
+    i += run;
+  }
+  return encoded;
+};
+
+export const decodeInputs = (encoded: string): (Direction | null)[] => {
+  const inputs: (Direction | null)[] = [];
+  for (const [, count, symbol] of encoded.matchAll(/(\d*)([UDLR.])/g)) {
+    const direction = SYMBOL_DIRECTIONS[symbol];
+    for (let i = 0; i < (count ? Number(count) : 1); i++) inputs.push(direction);
+  }
+  return inputs;
+};
+
+// === RECORDING ===
+export interface ReplayRecorder {
+  // Call once per step with the input passed to it
+  record: (direction: Direction | null | undefined) => void;
+  finish: () => Replay;
+}
+
+export const createReplayRecorder = (config: GameConfig, mode: GameMode, baseTickMs: number): ReplayRecorder => {
+  const inputs: (Direction | null)[] = [];
+
+  return {
+    record: (direction) => {
+      inputs.push(direction ?? null);
+    },
+    finish: () => ({
+      version: REPLAY_VERSION,
+      config,
+      mode,
+      baseTickMs,
+      ticks: inputs.length,
+      inputs: encodeInputs(inputs),
+      recordedAt: new Date().toISOString(),
+    }),
+  };
+};
+
+// === PARSING ===
+// Replays are shared as files, so everything createGame and the player rely
+// on is checked up front rather than failing halfway through playback. The
+// limits are the game's own, so an oversized file cannot hang the tab.
+const MAX_GRID_SIZE = 300; // The large arena
+const MAX_TERRITORY_SIZE = 11; // Largest starting square in the settings
+const MAX_BOTS = 8; // Games are played against four
+const MAX_TICKS = 25 * 60 * 60; // An hour at survival's top speed
+const MAX_TICK_MS = 1000;
+// No single run of one symbol can be longer than the whole replay
+const INPUTS_PATTERN = new RegExp(`^(\\d{0,${String(MAX_TICKS).length}}[UDLR.])*$`);
+
+// Ticks an encoded input string stands for, without expanding it
+const countInputs = (encoded: string): number => {
+  let count = 0;
+  for (const [, run] of encoded.matchAll(/(\d*)[UDLR.]/g)) count += run ? Number(run) : 1;
+  return count;
+};
+
+const gameConfigSchema = z.object({
+  gridWidth: z.number().int().positive().max(MAX_GRID_SIZE),
+  gridHeight: z.number().int().positive().max(MAX_GRID_SIZE),
+  initialTerritorySize: z.number().int().positive().max(MAX_TERRITORY_SIZE),
+  seed: z.number().finite(),
+  playerName: z.string().nullable(),
+  botCount: z.number().int().min(0).max(MAX_BOTS),
+  botDifficulty: z.enum(["easy", "medium", "hard"]),
+  victoryPercentage: z.number().min(0).max(100),
+});
+
+const replaySchema = typedSchema<Replay>(z.object({
+  version: z.literal(REPLAY_VERSION),
+  config: gameConfigSchema,
+  mode: z.enum(["classic", "timed", "race", "survival"]),
+  baseTickMs: z.number().positive().max(MAX_TICK_MS),
+  ticks: z.number().int().min(0).max(MAX_TICKS),
+  inputs: z.string().regex(INPUTS_PATTERN),
+  recordedAt: z.string(),
+}).refine(replay => countInputs(replay.inputs) === replay.ticks, "Inputs do not cover every tick"));
+
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (version !== REPLAY_VERSION) {
+    throw new Error("Not a Paper Snake replay, or from an unsupported version");
+  }
+  const parsed = replaySchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error("Replay file is incomplete or damaged");
+  }
+  return parsed.data;
+};
+
+// === PLAYBACK ===
+// Re-simulates on demand. States are immutable, so one is kept every
+// CHECKPOINT_INTERVAL ticks and scrubbing only replays the gap from the
+// nearest earlier checkpoint. The last couple of states handed out are kept
+// too: playback asks for neighbouring ticks every frame, which are then at
+// most a step away.
+const CHECKPOINT_INTERVAL = 50;
+const RECENT_STATES = 2;
+
+export interface ReplayPlayer {
+  ticks: number;
+  stateAt: (tick: number) => GameState;
+  // Game time in milliseconds at the start of `tick`, and how long that tick
+  // lasts, following the mode's pace
+  timeAt: (tick: number) => number;
+  tickMsAt: (tick: number) => number;
+}
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const inputs = decodeInputs(replay.inputs);
+  const checkpoints: GameState[] = [createGame(replay.config)];
+  // Start time of every tick, plus the end of the last one
+  const times = [0];
+  for (let tick = 0; tick < replay.ticks; tick++) {
+    times.push(times[tick] + modeTickMs(replay.mode, replay.baseTickMs, times[tick]));
+  }
+
+  const clampTick = (tick: number) => Math.max(0, Math.min(replay.ticks, Math.floor(tick)));
+  let recent: GameState[] = [];
+
+  const stateAt = (tick: number) => {
+    const target = clampTick(tick);
+    let state = checkpoints[Math.min(Math.floor(target / CHECKPOINT_INTERVAL), checkpoints.length - 1)];
+    for (const candidate of recent) {
+      if (candidate.tick <= target && candidate.tick > state.tick) state = candidate;
+    }
+
+    while (state.tick < target) {
+      state = step(state, { direction: inputs[state.tick] });
+      if (state.tick % CHECKPOINT_INTERVAL === 0 && state.tick / CHECKPOINT_INTERVAL === checkpoints.length) {
+        checkpoints.push(state);
+      }
+      // A finished game never advances again
+      if (state.isGameOver || state.isVictory) break;
+    }
+
+    if (!recent.includes(state)) recent = [...recent.slice(1 - RECENT_STATES), state];
+    return state;
+  };
+
+  const timeAt = (tick: number) => times[clampTick(tick)];
+  const tickMsAt = (tick: number) => modeTickMs(replay.mode, replay.baseTickMs, timeAt(tick));
+
+  return { ticks: replay.ticks, stateAt, timeAt, tickMsAt };
+};
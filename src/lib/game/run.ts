@@ -0,0 +1,157 @@
+import { createFixedStepClock } from "./clock";
+import { createGame, step } from "./engine";
+import { checkRunEnd, modeTickMs, type GameMode, type RunOutcome } from "./modes";
+import { randomSeed } from "./random";
+import { createReplayRecorder, type Replay } from "./replay";
+import { selectDirection, selectIsGameOver, selectPlayer, selectTerritoryPercentage } from "./selectors";
+import { createTurnQueue, steerTowards } from "./turns";
+import type { Direction, GameConfig, GameState, SnakeStats } from "./types";
+
+const MAX_CATCH_UP_STEPS = 5; // Steps run in one frame before the backlog is dropped
+export const HISTORY_INTERVAL_MS = 1000; // Game time between territory samples
+
+export interface TerritorySample {
+  timeMs: number;
+  percentage: number;
+}
+
+// What a finished run is scored on
+export interface RunResult {
+  mode: GameMode;
+  outcome: RunOutcome;
+  // Share of the arena held when the run ended (just before, for a death)
+  score: number;
+  // Highest share held at any point
+  peakScore: number;
+  kills: number;
+  durationMs: number;
+  // Null when a network game ended before we joined
+  stats: SnakeStats | null;
+  // Territory over the run, sampled about once a second
+  history: TerritorySample[];
+}
+
+export interface RunEnding {
+  result: RunResult;
+  replay: Replay;
+}
+
+export interface LocalRunOptions {
+  // Seeded randomly unless given
+  config: Partial<GameConfig>;
+  mode: GameMode;
+  // Step length at the start of the run; the mode may shorten it later
+  baseTickMs: number;
+}
+
+export interface LocalFrame {
+  state: GameState;
+  // State before the latest step, null until the first one
+  previous: GameState | null;
+  // Progress from `previous` to `state`, 0-1
+  alpha: number;
+  elapsedMs: number;
+  tickMs: number;
+  // Point the player steers toward, in cells (see LocalRun.aimAt)
+  aim: [number, number] | null;
+}
+
+export interface LocalRun {
+  // Queued turns are applied one per step; false when the turn was dropped
+  // (a reversal, no change of direction, or the queue is full)
+  queueDirection: (direction: Direction) => boolean;
+  // Steers toward a point (in cells) on every step that has no queued turn,
+  // until cleared with null
+  aimAt: (point: [number, number] | null) => void;
+  // Runs the steps due by `now` (none while paused). `ending` is set once,
+  // on the frame the run finishes; later calls change nothing.
+  advance: (now: number, isPaused: boolean) => { frame: LocalFrame; ending: RunEnding | null };
+}
+
+// === LOCAL RUN ===
+// One single-player run from start to finish: the fixed-step clock, the
+// mode's rules, the replay and the territory history. Has no idea where it
+// runs, so the main thread and the simulation worker share it.
+export const createLocalRun = ({ config, mode, baseTickMs }: LocalRunOptions): LocalRun => {
+  let state = createGame({ seed: randomSeed(), ...config });
+  let previous: GameState | null = null;
+  const turns = createTurnQueue();
+  let aim: [number, number] | null = null;
+  let tickMs = modeTickMs(mode, baseTickMs, 0);
+  let elapsedMs = 0;
+  let alpha = 0;
+  let finished = false;
+
+  const { gridWidth, gridHeight } = state.config;
+  const recorder = createReplayRecorder(state.config, mode, baseTickMs);
+  const history: TerritorySample[] = [{ timeMs: 0, percentage: selectTerritoryPercentage(state) }];
+  const clock = createFixedStepClock(tickMs, MAX_CATCH_UP_STEPS);
+
+  const frame = (): LocalFrame => ({ state, previous, alpha, elapsedMs, tickMs, aim });
+
+  // A queued turn wins over the aim
+  const nextDirection = (): Direction | null => {
+    const queued = turns.shift();
+    const player = selectPlayer(state);
+    if (queued || !aim || !player?.isAlive) return queued;
+    return steerTowards(player, aim);
+  };
+
+  return {
+    queueDirection: (direction) => {
+      if (finished || selectIsGameOver(state)) return false;
+      return turns.push(direction, selectDirection(state));
+    },
+
+    aimAt: (point) => {
+      aim = point;
+    },
+
+    advance: (now, isPaused) => {
+      if (finished) return { frame: frame(), ending: null };
+
+      // The simulation advances in fixed steps however often frames arrive;
+      // while paused the clock is held so no time builds up
+      if (isPaused) clock.hold(now);
+      const advanced = clock.advance(now);
+      alpha = advanced.alpha;
+
+      for (let i = 0; i < advanced.steps; i++) {
+        // Dead snakes lose their land, so score what was held before the move
+        const scoreBefore = selectTerritoryPercentage(state);
+        const direction = nextDirection();
+        recorder.record(direction);
+        previous = state;
+        state = step(state, { direction });
+        elapsedMs += tickMs;
+
+        const outcome = checkRunEnd(mode, state, elapsedMs);
+        const score = outcome?.reason === "died" ? scoreBefore : selectTerritoryPercentage(state);
+        if (outcome || elapsedMs - history[history.length - 1].timeMs >= HISTORY_INTERVAL_MS) {
+          history.push({ timeMs: elapsedMs, percentage: score });
+        }
+
+        if (outcome) {
+          finished = true;
+          const player = selectPlayer(state);
+          const result: RunResult = {
+            mode,
+            outcome,
+            score,
+            peakScore: player ? (player.stats.peakArea / (gridWidth * gridHeight)) * 100 : score,
+            kills: player?.kills ?? 0,
+            durationMs: elapsedMs,
+            stats: player?.stats ?? null,
+            history,
+          };
+          return { frame: frame(), ending: { result, replay: recorder.finish() } };
+        }
+
+        tickMs = modeTickMs(mode, baseTickMs, elapsedMs);
+        clock.setStepMs(tickMs);
+      }
+
+      return { frame: frame(), ending: null };
+    },
+  };
+};
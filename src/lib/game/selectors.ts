@@ -0,0 +1,58 @@
+import { PLAYER_ID } from "./engine";
+import { trailOf } from "./trails";
+import type { Direction, GameState, MultiPolygon, Point, Snake, SnakeStats } from "./types";
+
+// Read-only views over GameState. Renderers, bots and tests should go
+// through these rather than reaching into the state shape directly.
+
+export const selectSnakes = (state: GameState): ReadonlyArray<Snake> => state.snakes;
+
+export const selectAliveSnakes = (state: GameState): ReadonlyArray<Snake> =>
+  state.snakes.filter(snake => snake.isAlive);
+
+// The local player by default, or any snake by id (e.g. "me" in a server room)
+export const selectPlayer = (state: GameState, id = PLAYER_ID): Snake | undefined =>
+  state.snakes.find(snake => snake.id === id);
+
+export const selectStats = (state: GameState, id = PLAYER_ID): SnakeStats | undefined =>
+  selectPlayer(state, id)?.stats;
+
+export const selectHead = (state: GameState): Readonly<Point> => {
+  const player = selectPlayer(state);
+  return [player.x, player.y];
+};
+
+export const selectDirection = (state: GameState): Direction => selectPlayer(state).direction;
+
+export const selectTrail = (state: GameState): ReadonlyArray<Readonly<Point>> => trailOf(selectPlayer(state));
+
+export const selectTerritories = (state: GameState): Readonly<MultiPolygon> => selectPlayer(state).territories;
+
+export const selectIsGameOver = (state: GameState): boolean => state.isGameOver;
+
+export const selectIsVictory = (state: GameState): boolean => state.isVictory;
+
+export const selectTick = (state: GameState): number => state.tick;
+
+// Owner id of a cell, 0 when unclaimed or off the arena
+export const selectOwnerAt = (state: GameState, x: number, y: number): number => {
+  const { gridWidth, gridHeight } = state.config;
+  if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) return 0;
+  return state.ownership[y * gridWidth + x];
+};
+
+// Owned share of the arena for any snake, 0-100
+export const selectSnakePercentage = (state: GameState, snake: Snake): number => {
+  const totalCells = state.config.gridWidth * state.config.gridHeight;
+  return (snake.territoryArea / totalCells) * 100;
+};
+
+// Exact number of cells the player owns (cached on the state by the engine)
+export const selectTerritoryCells = (state: GameState, id = PLAYER_ID): number =>
+  selectPlayer(state, id)?.territoryArea ?? 0;
+
+// Player's owned share of the arena, 0-100
+export const selectTerritoryPercentage = (state: GameState, id = PLAYER_ID): number => {
+  const totalCells = state.config.gridWidth * state.config.gridHeight;
+  return (selectTerritoryCells(state, id) / totalCells) * 100;
+};
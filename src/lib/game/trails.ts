@@ -0,0 +1,43 @@
+import { cellIndex, NO_OWNER } from "./ownership";
+import type { Point, Snake } from "./types";
+
+// === TRAIL POINTS ===
+// The trail of a snake, valid until the next step appends to it
+export const trailOf = (snake: Snake): Point[] =>
+  snake.trailBuffer.length === snake.trailLength
+    ? snake.trailBuffer
+    : snake.trailBuffer.slice(0, snake.trailLength);
+
+// Adds a point without copying the trail: the buffer grows in place unless a
+// later state already grew it (stepping an older state again), in which case
+// this state gets a copy of its own
+export const extendTrail = (snake: Snake, point: Point): Pick<Snake, "trailBuffer" | "trailLength"> => {
+  const trailBuffer = trailOf(snake);
+  trailBuffer.push(point);
+  return { trailBuffer, trailLength: trailBuffer.length };
+};
+
+// === TRAIL OCCUPANCY GRID ===
+// One byte per cell holding the id of the snake whose trail covers it, so
+// "did this head just hit a trail?" is a single lookup however long the
+// trails are. Trails never overlap: stepping onto one ends it the same tick.
+export const buildTrailGrid = (
+  gridWidth: number,
+  gridHeight: number,
+  snakes: ReadonlyArray<Snake>
+): Uint8Array => {
+  const grid = new Uint8Array(gridWidth * gridHeight);
+  for (const snake of snakes) {
+    if (!snake.isAlive) continue;
+    for (const [x, y] of trailOf(snake)) grid[cellIndex(gridWidth, x, y)] = snake.id;
+  }
+  return grid;
+};
+
+// Releases the cells of a trail that was closed or whose snake died
+export const clearTrail = (grid: Uint8Array, gridWidth: number, trail: ReadonlyArray<Point>, ownerId: number) => {
+  for (const [x, y] of trail) {
+    const index = cellIndex(gridWidth, x, y);
+    if (grid[index] === ownerId) grid[index] = NO_OWNER;
+  }
+};
@@ -0,0 +1,59 @@
+import { isOppositeDirection } from "./directions";
+import type { Direction, Snake } from "./types";
+
+// === TURN QUEUE ===
+// Turns pressed faster than the snake moves are kept and applied one per
+// step, so a quick UP then LEFT doubles back over two steps instead of the
+// second press replacing the first. Each turn is checked against the one
+// queued before it, or the snake's heading when nothing is queued.
+export const MAX_QUEUED_TURNS = 3;
+
+// A turn is only worth queueing if it changes where the snake goes and
+// does not send it back into its own neck
+export const canQueueTurn = (direction: Direction, last: Direction): boolean =>
+  direction !== last && !isOppositeDirection(direction, last);
+
+export interface TurnQueue {
+  // `heading` is the direction the snake is moving in right now
+  push: (direction: Direction, heading: Direction) => boolean;
+  // Turn for the next step, null to keep going straight
+  shift: () => Direction | null;
+  clear: () => void;
+}
+
+export const createTurnQueue = (maxLength = MAX_QUEUED_TURNS): TurnQueue => {
+  let turns: Direction[] = [];
+
+  return {
+    push: (direction, heading) => {
+      const last = turns.length > 0 ? turns[turns.length - 1] : heading;
+      if (turns.length >= maxLength || !canQueueTurn(direction, last)) return false;
+      turns.push(direction);
+      return true;
+    },
+    shift: () => turns.shift() ?? null,
+    clear: () => {
+      turns = [];
+    },
+  };
+};
+
+// === POINTER STEERING ===
+// Heads toward a point in (fractional) cells along whichever axis it is
+// further away on. A point behind the snake turns it toward the point's
+// side instead, since a snake can never reverse. Null when the snake is
+// already heading that way or the point is on its head.
+export const steerTowards = (
+  { x, y, direction }: Pick<Snake, "x" | "y" | "direction">,
+  [aimX, aimY]: [number, number]
+): Direction | null => {
+  const dx = aimX - (x + 0.5);
+  const dy = aimY - (y + 0.5);
+  if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) return null;
+
+  const horizontal: Direction = dx > 0 ? "RIGHT" : "LEFT";
+  const vertical: Direction = dy > 0 ? "DOWN" : "UP";
+  const [major, minor] = Math.abs(dx) >= Math.abs(dy) ? [horizontal, vertical] : [vertical, horizontal];
+  const steered = isOppositeDirection(major, direction) ? minor : major;
+  return steered === direction ? null : steered;
+};
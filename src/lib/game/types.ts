@@ -0,0 +1,105 @@
+// === GEOMETRY TYPES ===
+export type Direction = "UP" | "DOWN" | "LEFT" | "RIGHT";
+export type Point = [number, number];
+export type Polygon = Point[][];
+export type MultiPolygon = Polygon[];
+
+// === ENGINE TYPES ===
+export type BotDifficulty = "easy" | "medium" | "hard";
+
+export interface GameConfig {
+  // Arena size in grid cells
+  gridWidth: number;
+  gridHeight: number;
+  // Side length of the square starting territory
+  initialTerritorySize: number;
+  // Seed for the deterministic random generator
+  seed: number;
+  // Display name of the local player, or null for a shared arena (server
+  // rooms) where humans join and leave through addPlayer/removeSnake
+  playerName: string | null;
+  // Computer-controlled opponents
+  botCount: number;
+  botDifficulty: BotDifficulty;
+  // Share of the arena (0-100) the local player must hold to win
+  victoryPercentage: number;
+}
+
+export interface BotBrain {
+  difficulty: BotDifficulty;
+  // Directions still to walk on the current excursion, one per tick
+  plan: Direction[];
+}
+
+export type DeathCause = "wall" | "own-trail" | "opponent";
+
+// Running totals for one snake's run
+export interface SnakeStats {
+  // Cells moved
+  distance: number;
+  // Trails closed back home, and the most cells a single one added
+  captures: number;
+  largestCapture: number;
+  // Most cells held at any one time
+  peakArea: number;
+  // Tick the snake died on and what killed it, null while alive
+  diedAt: number | null;
+  causeOfDeath: DeathCause | null;
+}
+
+export interface Snake {
+  // Owner id of this snake's cells in the ownership grid
+  id: number;
+  name: string;
+  kind: "player" | "bot";
+  // Snake position (grid coordinates)
+  x: number;
+  y: number;
+  // Current movement direction
+  direction: Direction;
+  // Trail points when outside territory: the first `trailLength` entries of
+  // `trailBuffer`. Moving only ever appends to the buffer, so consecutive
+  // states share it; read the points through trailOf.
+  trailBuffer: Point[];
+  trailLength: number;
+  // Outline of the snake's cells, kept in sync with the ownership grid and
+  // drawn as the territory's border
+  territories: MultiPolygon;
+  // Number of cells the snake owns, refreshed whenever ownership changes
+  territoryArea: number;
+  // Is snake currently outside its territory?
+  isOutside: boolean;
+  isAlive: boolean;
+  // Opponents this snake eliminated by cutting their trail
+  kills: number;
+  // Decision state for bots, null for the player
+  brain: BotBrain | null;
+  stats: SnakeStats;
+}
+
+export interface GameState {
+  // Config the game was created with
+  readonly config: GameConfig;
+  // Number of simulation steps taken so far
+  tick: number;
+  // Internal state of the seeded random generator
+  rngState: number;
+  // Owner id per cell (row-major); the authoritative territory model
+  ownership: Uint8Array;
+  // Id of the snake whose trail covers each cell (row-major), kept in step
+  // with the snakes' trails for constant-time collision checks
+  trailGrid: Uint8Array;
+  // The local player first (when there is one), then bots and joined humans
+  snakes: Snake[];
+  // Game status (the local player has been eliminated)
+  isGameOver: boolean;
+  // The local player holds at least config.victoryPercentage of the arena
+  isVictory: boolean;
+}
+
+export interface GameInput {
+  // Requested turn for the local player; ignored when it reverses the snake
+  direction?: Direction | null;
+  // Requested turns for joined humans, keyed by snake id
+  players?: Record<number, Direction | null>;
+}
@@ -0,0 +1,78 @@
+import type { Direction } from "@/lib/game";
+import type { InputAction, InputSource } from "./sources";
+
+// === GAMEPAD ===
+// Buttons of the "standard" mapping every mainstream controller reports
+const BUTTON_A = 0;
+const BUTTON_START = 9;
+const DPAD_BUTTONS: [number, Direction][] = [[12, "UP"], [13, "DOWN"], [14, "LEFT"], [15, "RIGHT"]];
+
+// Stick travel (0-1) ignored around the centre
+const STICK_DEADZONE = 0.5;
+// How much further the stick must lean on one axis than the other before
+// it counts, so diagonals don't flicker between two directions
+const AXIS_DOMINANCE = 1.5;
+
+const connectedGamepads = (): Gamepad[] =>
+  typeof navigator !== "undefined" && navigator.getGamepads
+    ? navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected)
+    : [];
+
+// D-pad first, then the left stick
+export const readGamepadDirection = (pad: Gamepad): Direction | null => {
+  for (const [button, direction] of DPAD_BUTTONS) {
+    if (pad.buttons[button]?.pressed) return direction;
+  }
+
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  if (Math.hypot(x, y) < STICK_DEADZONE) return null;
+  if (Math.abs(x) >= Math.abs(y) * AXIS_DOMINANCE) return x > 0 ? "RIGHT" : "LEFT";
+  if (Math.abs(y) >= Math.abs(x) * AXIS_DOMINANCE) return y > 0 ? "DOWN" : "UP";
+  return null;
+};
+
+// Polls every connected controller once per frame and emits an action when
+// a direction, Start or A is newly pressed. Holding a direction turns once.
+// Whatever is already held when polling starts is ignored, so the press that
+// opened a menu doesn't also act on it.
+export const gamepadSource: InputSource = (emit) => {
+  const held = new Map<number, { direction: Direction | null; start: boolean; a: boolean }>();
+  let animationFrame = 0;
+
+  const poll = () => {
+    for (const pad of connectedGamepads()) {
+      const now = {
+        direction: readGamepadDirection(pad),
+        start: !!pad.buttons[BUTTON_START]?.pressed,
+        a: !!pad.buttons[BUTTON_A]?.pressed,
+      };
+      const before = held.get(pad.index) ?? now;
+      held.set(pad.index, now);
+
+      const actions: InputAction[] = [];
+      if (now.direction && now.direction !== before.direction) actions.push({ type: "turn", direction: now.direction });
+      if (now.start && !before.start) actions.push({ type: "pause" });
+      if (now.a && !before.a) actions.push({ type: "confirm" });
+      for (const action of actions) emit(action);
+    }
+    animationFrame = requestAnimationFrame(poll);
+  };
+
+  animationFrame = requestAnimationFrame(poll);
+  return () => cancelAnimationFrame(animationFrame);
+};
+
+// Calls `listener` with whether any controller is connected, now and on
+// every change
+export const watchGamepadConnection = (listener: (connected: boolean) => void): (() => void) => {
+  const update = () => listener(connectedGamepads().length > 0);
+
+  update();
+  window.addEventListener("gamepadconnected", update);
+  window.addEventListener("gamepaddisconnected", update);
+  return () => {
+    window.removeEventListener("gamepadconnected", update);
+    window.removeEventListener("gamepaddisconnected", update);
+  };
+};
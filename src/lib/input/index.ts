@@ -0,0 +1,16 @@
+export * from "./sources";
+export { createDpadSource, createJoystickSource, createSwipeSource } from "./touch";
+export { createPointerSource } from "./pointer";
+export { gamepadSource, readGamepadDirection, watchGamepadConnection } from "./gamepad";
+export {
+  bindKey,
+  describeKey,
+  KEY_PRESETS,
+  matchPreset,
+  MAX_KEYS_PER_DIRECTION,
+  normalizeKey,
+  PAUSE_KEYS,
+  unbindKey,
+  type KeyBindings,
+  type KeyPreset,
+} from "./keys";
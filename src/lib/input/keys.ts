@@ -0,0 +1,85 @@
+import type { Direction } from "@/lib/game";
+
+// === KEY BINDINGS ===
+// Keys are kept as KeyboardEvent.key values, letters in lower case so Shift
+// or Caps Lock never changes what a key does
+export type KeyBindings = Record<Direction, string[]>;
+
+export const MAX_KEYS_PER_DIRECTION = 2;
+
+// Fixed so a game can always be paused, whatever the turn keys are
+export const PAUSE_KEYS = ["Escape", "p"];
+
+export const KEY_PRESETS = {
+  arrows: {
+    label: "Arrow keys",
+    bindings: { UP: ["ArrowUp"], DOWN: ["ArrowDown"], LEFT: ["ArrowLeft"], RIGHT: ["ArrowRight"] },
+  },
+  wasd: {
+    label: "WASD",
+    bindings: { UP: ["w"], DOWN: ["s"], LEFT: ["a"], RIGHT: ["d"] },
+  },
+  both: {
+    label: "Arrows + WASD",
+    bindings: { UP: ["ArrowUp", "w"], DOWN: ["ArrowDown", "s"], LEFT: ["ArrowLeft", "a"], RIGHT: ["ArrowRight", "d"] },
+  },
+} satisfies Record<string, { label: string; bindings: KeyBindings }>;
+
+export type KeyPreset = keyof typeof KEY_PRESETS;
+
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  " ": "Space",
+};
+
+// How a key is shown in the settings
+export const describeKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+// The preset `bindings` are exactly, or null for a custom set
+export const matchPreset = (bindings: KeyBindings): KeyPreset | null => {
+  const presets = Object.keys(KEY_PRESETS) as KeyPreset[];
+  return presets.find(preset => {
+    const keys = KEY_PRESETS[preset].bindings;
+    return (Object.keys(keys) as Direction[]).every(direction =>
+      keys[direction].join() === bindings[direction].join()
+    );
+  }) ?? null;
+};
+
+// Puts `key` in `slot` of `direction`. A key already bound elsewhere swaps
+// places with the one it replaces, so a key only ever does one thing. Null
+// when that would take the last key from another direction.
+export const bindKey = (
+  bindings: KeyBindings,
+  direction: Direction,
+  slot: number,
+  key: string
+): KeyBindings | null => {
+  const replaced: string | undefined = bindings[direction][slot];
+  const swap = (bound: string) => (bound !== key ? [bound] : replaced ? [replaced] : []);
+  const next = {} as KeyBindings;
+  for (const other of Object.keys(bindings) as Direction[]) {
+    next[other] = other === direction ? [...bindings[other]] : bindings[other].flatMap(swap);
+  }
+
+  if (Object.values(next).some(keys => keys.length === 0)) return null;
+
+  const keys = next[direction];
+  const current = keys.indexOf(key);
+  if (current !== -1 && replaced) keys[current] = replaced;
+  else if (current !== -1) keys.splice(current, 1);
+  if (slot < keys.length) keys[slot] = key;
+  else keys.push(key);
+  return next;
+};
+
+// Takes the key in `slot` off `direction`
+export const unbindKey = (bindings: KeyBindings, direction: Direction, slot: number): KeyBindings => ({
+  ...bindings,
+  [direction]: bindings[direction].filter((_, i) => i !== slot),
+});
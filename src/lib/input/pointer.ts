@@ -0,0 +1,22 @@
+import type { InputSource } from "./sources";
+
+// === MOUSE POINTER ===
+// Reports where the mouse is over `element` for mouse steering. Touch and
+// pen pointers are left to the touch controls.
+export const createPointerSource = (element: HTMLElement): InputSource => (emit) => {
+  const handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerType !== "mouse") return;
+    const rect = element.getBoundingClientRect();
+    emit({ type: "aim", point: [e.clientX - rect.left, e.clientY - rect.top] });
+  };
+  const handlePointerLeave = (e: PointerEvent) => {
+    if (e.pointerType === "mouse") emit({ type: "aim", point: null });
+  };
+
+  element.addEventListener("pointermove", handlePointerMove);
+  element.addEventListener("pointerleave", handlePointerLeave);
+  return () => {
+    element.removeEventListener("pointermove", handlePointerMove);
+    element.removeEventListener("pointerleave", handlePointerLeave);
+  };
+};
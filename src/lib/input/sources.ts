@@ -0,0 +1,48 @@
+import type { Direction } from "@/lib/game";
+import { normalizeKey, PAUSE_KEYS, type KeyBindings } from "./keys";
+
+// === INPUT ACTIONS ===
+// Every device is turned into the same few actions, so the game never cares
+// where a turn came from
+export type InputAction =
+  | { type: "turn"; direction: Direction }
+  | { type: "pause" }
+  // Where the mouse is over the game canvas, in canvas pixels; null once it
+  // has left
+  | { type: "aim"; point: [number, number] | null }
+  // Primary button of whatever menu is showing
+  | { type: "confirm" };
+
+// Returns whether the action was used, e.g. so a key press can be swallowed
+export type InputListener = (action: InputAction) => boolean | void;
+
+// Starts listening to one device and returns a function that stops it
+export type InputSource = (emit: InputListener) => () => void;
+
+// === INPUT MANAGER ===
+// Starts every source and returns a function that stops them all. Sources
+// share one listener and never check turns themselves: the game queues them
+// and applies one per step (see createTurnQueue).
+export const startInputSources = (sources: InputSource[], emit: InputListener): (() => void) => {
+  const stops = sources.map(source => source(emit));
+  return () => stops.forEach(stop => stop());
+};
+
+// === KEYBOARD ===
+// Turns use the player's key bindings; the pause keys are fixed
+export const createKeyboardSource = (bindings: KeyBindings): InputSource => (emit) => {
+  const actions = new Map<string, InputAction>(PAUSE_KEYS.map(key => [key, { type: "pause" }]));
+  for (const direction of Object.keys(bindings) as Direction[]) {
+    for (const key of bindings[direction]) actions.set(key, { type: "turn", direction });
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Leave browser shortcuts alone
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const action = actions.get(normalizeKey(e.key));
+    if (action && emit(action)) e.preventDefault();
+  };
+
+  window.addEventListener("keydown", handleKeyDown);
+  return () => window.removeEventListener("keydown", handleKeyDown);
+};
@@ -0,0 +1,144 @@
+import type { Direction } from "@/lib/game";
+import type { InputSource } from "./sources";
+
+// Direction of a drag, favouring the axis with larger movement
+const dragDirection = (dx: number, dy: number): Direction =>
+  Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? "RIGHT" : "LEFT") : (dy > 0 ? "DOWN" : "UP");
+
+// === TOUCH SWIPES ===
+// `threshold` is the minimum swipe distance in CSS pixels
+export const createSwipeSource = (element: HTMLElement, threshold: number): InputSource => (emit) => {
+  let touchStartX = 0;
+  let touchStartY = 0;
+
+  const handleTouchStart = (e: TouchEvent) => {
+    e.preventDefault();
+    const touch = e.touches[0];
+    touchStartX = touch.clientX;
+    touchStartY = touch.clientY;
+  };
+
+  const handleTouchEnd = (e: TouchEvent) => {
+    e.preventDefault();
+
+    const touch = e.changedTouches[0];
+    const deltaX = touch.clientX - touchStartX;
+    const deltaY = touch.clientY - touchStartY;
+
+    // Only register swipe if it exceeds threshold
+    if (Math.abs(deltaX) < threshold && Math.abs(deltaY) < threshold) {
+      return;
+    }
+
+    emit({ type: "turn", direction: dragDirection(deltaX, deltaY) });
+  };
+
+  element.addEventListener("touchstart", handleTouchStart, { passive: false });
+  element.addEventListener("touchend", handleTouchEnd, { passive: false });
+  return () => {
+    element.removeEventListener("touchstart", handleTouchStart);
+    element.removeEventListener("touchend", handleTouchEnd);
+  };
+};
+
+// === ON-SCREEN CONTROLS ===
+// Both follow one pointer from the moment it goes down, so a turn happens
+// while the finger is still moving rather than when it lifts
+const trackPointer = (
+  element: HTMLElement,
+  onMove: (e: PointerEvent) => void,
+  onRelease: () => void
+): (() => void) => {
+  let pointerId: number | null = null;
+
+  const handlePointerDown = (e: PointerEvent) => {
+    e.preventDefault();
+    if (pointerId !== null) return;
+    pointerId = e.pointerId;
+    element.setPointerCapture(e.pointerId);
+    onMove(e);
+  };
+  const handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerId === pointerId) onMove(e);
+  };
+  const handlePointerUp = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    pointerId = null;
+    onRelease();
+  };
+
+  element.addEventListener("pointerdown", handlePointerDown);
+  element.addEventListener("pointermove", handlePointerMove);
+  element.addEventListener("pointerup", handlePointerUp);
+  element.addEventListener("pointercancel", handlePointerUp);
+  return () => {
+    element.removeEventListener("pointerdown", handlePointerDown);
+    element.removeEventListener("pointermove", handlePointerMove);
+    element.removeEventListener("pointerup", handlePointerUp);
+    element.removeEventListener("pointercancel", handlePointerUp);
+  };
+};
+
+// Turns to the direction of the `[data-direction]` button under the finger.
+// Sliding onto another button turns again; the pressed one is marked with
+// `data-pressed` for styling.
+export const createDpadSource = (element: HTMLElement): InputSource => (emit) => {
+  let pressed: HTMLElement | null = null;
+
+  const press = (button: HTMLElement | null) => {
+    if (button === pressed) return;
+    delete pressed?.dataset.pressed;
+    pressed = button;
+    if (!button) return;
+    button.dataset.pressed = "";
+    emit({ type: "turn", direction: button.dataset.direction as Direction });
+  };
+
+  return trackPointer(
+    element,
+    (e) => {
+      const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>("[data-direction]");
+      press(target && element.contains(target) ? target : null);
+    },
+    () => press(null)
+  );
+};
+
+// Turns once the finger is `threshold` CSS pixels from the centre of the
+// element, and again whenever the drag swings to another direction. The
+// knob's offset is published as the `--knob-x` and `--knob-y` properties.
+export const createJoystickSource = (element: HTMLElement, threshold: number): InputSource => (emit) => {
+  let heading: Direction | null = null;
+
+  const moveKnob = (x: number, y: number) => {
+    element.style.setProperty("--knob-x", `${x}px`);
+    element.style.setProperty("--knob-y", `${y}px`);
+  };
+
+  const stop = trackPointer(
+    element,
+    (e) => {
+      const rect = element.getBoundingClientRect();
+      const dx = e.clientX - (rect.left + rect.width / 2);
+      const dy = e.clientY - (rect.top + rect.height / 2);
+      const distance = Math.hypot(dx, dy);
+      // The knob stays inside the base however far the finger goes
+      const scale = Math.min(1, rect.width / 2 / Math.max(distance, 1));
+      moveKnob(dx * scale, dy * scale);
+
+      if (distance < threshold) return;
+      const direction = dragDirection(dx, dy);
+      // A rejected turn (say a reversal) is tried again on the next move
+      if (direction !== heading && emit({ type: "turn", direction })) heading = direction;
+    },
+    () => {
+      heading = null;
+      moveKnob(0, 0);
+    }
+  );
+
+  return () => {
+    stop();
+    moveKnob(0, 0);
+  };
+};
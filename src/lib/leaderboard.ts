@@ -0,0 +1,99 @@
+import { GAME_MODES, type GameMode } from "@/lib/game";
+
+// === LOCAL LEADERBOARD ===
+// Finished runs are kept in localStorage, so the board belongs to this
+// browser rather than to a player account.
+const LEADERBOARD_KEY = "paper-snake:leaderboard";
+const PLAYER_NAME_KEY = "paper-snake:player-name";
+// When full, the weakest runs make room for new ones
+const MAX_ENTRIES = 500;
+
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  mode: GameMode;
+  // Share of the arena held when the run ended
+  percentage: number;
+  durationMs: number;
+  kills: number;
+  // ISO timestamp of when the run ended
+  date: string;
+}
+
+export type NewLeaderboardEntry = Omit<LeaderboardEntry, "id" | "date">;
+
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  const entry = value as LeaderboardEntry;
+  return !!entry &&
+    typeof entry.id === "string" &&
+    typeof entry.name === "string" &&
+    Object.prototype.hasOwnProperty.call(GAME_MODES, entry.mode) &&
+    typeof entry.percentage === "number" &&
+    typeof entry.durationMs === "number" &&
+    typeof entry.kills === "number" &&
+    typeof entry.date === "string";
+};
+
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) ?? "[]");
+    return Array.isArray(data) ? data.filter(isEntry) : [];
+  } catch {
+    // Unreadable storage behaves like an empty board
+    return [];
+  }
+};
+
+// Best runs first; ties go to the earlier run
+export const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry): number =>
+  b.percentage - a.percentage || a.date.localeCompare(b.date);
+
+export interface RankedEntry {
+  // Position among runs of the same mode, which filtering does not change
+  rank: number;
+  entry: LeaderboardEntry;
+}
+
+// Modes are ranked separately since their scores do not compare
+export const rankEntries = (entries: LeaderboardEntry[]): RankedEntry[] => {
+  const counts = new Map<GameMode, number>();
+  return [...entries].sort(compareEntries).map(entry => {
+    const rank = (counts.get(entry.mode) ?? 0) + 1;
+    counts.set(entry.mode, rank);
+    return { rank, entry };
+  });
+};
+
+export const addLeaderboardEntry = (run: NewLeaderboardEntry): LeaderboardEntry => {
+  const entry: LeaderboardEntry = {
+    ...run,
+    // crypto.randomUUID needs a secure context, which LAN play lacks
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    date: new Date().toISOString(),
+  };
+
+  const entries = [...loadLeaderboard(), entry].sort(compareEntries).slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: the run is still shown, just not kept
+  }
+  return entry;
+};
+
+// === REMEMBERED PLAYER NAME ===
+export const loadPlayerName = (): string => {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+  } catch {
+    // Not remembering the name is harmless
+  }
+};
@@ -0,0 +1,142 @@
+import { DIRECTION_DELTAS } from "../game/directions";
+import { canQueueTurn, MAX_QUEUED_TURNS } from "../game/turns";
+import type { Direction, GameState } from "../game/types";
+import {
+  applyDelta,
+  decodeSnapshot,
+  type ClientMessage,
+  type ServerMessage,
+} from "./protocol";
+
+export type ConnectionStatus = "connecting" | "connected" | "closed";
+
+export interface NetworkClientOptions {
+  // e.g. ws://192.168.1.20:8787/?room=office
+  url: string;
+  name: string;
+  onStatus?: (status: ConnectionStatus, message?: string) => void;
+}
+
+export interface NetworkFrame {
+  // Latest server state, with our own snake predicted one tick ahead
+  state: GameState;
+  // The state `state` is interpolated from
+  previous: GameState;
+  // Progress from `previous` to `state`, 0-1
+  alpha: number;
+}
+
+export interface NetworkClient {
+  // Our snake id, null until the server has welcomed us
+  getPlayerId: () => number | null;
+  sendDirection: (direction: Direction) => boolean;
+  getFrame: (now: number) => NetworkFrame | null;
+  close: () => void;
+}
+
+// === NETWORK CLIENT ===
+// Renders other snakes one tick in the past (interpolating between the two
+// latest server states) and our own snake one tick ahead, steering it with
+// inputs the server has not acknowledged yet. The server queues turns the
+// same way a local game does, applying the oldest unacknowledged one next.
+export const createNetworkClient = ({ url, name, onStatus }: NetworkClientOptions): NetworkClient => {
+  let playerId: number | null = null;
+  let tickMs = 100;
+  let current: GameState | null = null;
+  let previous: GameState | null = null;
+  let receivedAt = 0;
+  let seq = 0;
+  let pending: { seq: number; direction: Direction }[] = [];
+
+  const socket = new WebSocket(url);
+  onStatus?.("connecting");
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const accept = (state: GameState, ack: number) => {
+    previous = current ?? state;
+    current = state;
+    receivedAt = performance.now();
+    pending = pending.filter(input => input.seq > ack);
+  };
+
+  socket.addEventListener("open", () => send({ type: "join", name }));
+
+  socket.addEventListener("message", (event) => {
+    const message = JSON.parse(event.data) as ServerMessage;
+
+    switch (message.type) {
+      case "welcome":
+        playerId = message.id;
+        tickMs = message.tickMs;
+        accept(decodeSnapshot(message.snapshot), 0);
+        onStatus?.("connected");
+        break;
+      case "snapshot":
+        accept(decodeSnapshot(message.snapshot), message.ack);
+        break;
+      case "delta":
+        // A delta we cannot place means we missed one; wait for the next keyframe
+        if (current && message.delta.tick === current.tick + 1) {
+          accept(applyDelta(current, message.delta), message.ack);
+        }
+        break;
+      case "error":
+        onStatus?.("closed", message.message);
+        break;
+    }
+  });
+
+  socket.addEventListener("close", () => onStatus?.("closed"));
+  socket.addEventListener("error", () => onStatus?.("closed", "Could not reach the game server"));
+
+  // Direction our snake will take on the next server tick
+  const predictedDirection = (): Direction | null => {
+    const me = current?.snakes.find(snake => snake.id === playerId);
+    if (!me) return null;
+    return pending.length > 0 ? pending[0].direction : me.direction;
+  };
+
+  return {
+    getPlayerId: () => playerId,
+
+    sendDirection: (direction) => {
+      const me = current?.snakes.find(snake => snake.id === playerId);
+      if (!me || !me.isAlive || pending.length >= MAX_QUEUED_TURNS) return false;
+      const last = pending.length > 0 ? pending[pending.length - 1].direction : me.direction;
+      if (!canQueueTurn(direction, last)) return false;
+
+      seq++;
+      pending.push({ seq, direction });
+      send({ type: "input", direction, seq });
+      return true;
+    },
+
+    getFrame: (now) => {
+      if (!current || !previous) return null;
+
+      const alpha = Math.min(1, Math.max(0, (now - receivedAt) / tickMs));
+      const me = current.snakes.find(snake => snake.id === playerId);
+      const direction = predictedDirection();
+      if (!me || !me.isAlive || !direction) return { state: current, previous, alpha };
+
+      // Move our own snake from where the server has it toward the next cell
+      const [dx, dy] = DIRECTION_DELTAS[direction];
+      const predicted = { ...me, direction, x: me.x + dx, y: me.y + dy };
+      const replace = (state: GameState, snake: typeof me) => ({
+        ...state,
+        snakes: state.snakes.map(other => (other.id === snake.id ? snake : other)),
+      });
+
+      return {
+        state: replace(current, predicted),
+        previous: replace(previous, me),
+        alpha,
+      };
+    },
+
+    close: () => socket.close(),
+  };
+};
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { DIRECTION_DELTAS } from "../game/directions";
+import { traceCells } from "../game/geometry";
+import { buildTrailGrid } from "../game/trails";
+import { typedSchema } from "../schema";
+import type { Direction, GameConfig, GameState, Point, Snake } from "../game/types";
+
+// Messages are JSON text frames. The server owns the simulation; clients
+// only ever send turns and render what the server tells them.
+
+// === CLIENT -> SERVER ===
+export type ClientMessage =
+  | { type: "join"; name: string }
+  // `seq` increases per input so the server can acknowledge it
+  | { type: "input"; direction: Direction; seq: number };
+
+// Anything a socket sends is checked before the simulation sees it; one bad
+// direction would otherwise throw inside the room's tick
+const clientMessageSchema = typedSchema<ClientMessage>(z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), name: z.string() }),
+  z.object({
+    type: z.literal("input"),
+    direction: z.string().refine(
+      (direction): direction is Direction => Object.prototype.hasOwnProperty.call(DIRECTION_DELTAS, direction)
+    ),
+    seq: z.number().finite(),
+  }),
+]));
+
+// The message in a text frame, or null for anything malformed
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  try {
+    const parsed = clientMessageSchema.safeParse(JSON.parse(text));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+// === SERVER -> CLIENT ===
+export type ServerMessage =
+  | { type: "welcome"; id: number; tickMs: number; snapshot: Snapshot }
+  | { type: "snapshot"; snapshot: Snapshot; ack: number }
+  | { type: "delta"; delta: Delta; ack: number }
+  | { type: "error"; message: string };
+
+// Trails travel as plain point lists
+export type SnakeSnapshot = Omit<Snake, "territories" | "brain" | "trailBuffer" | "trailLength"> & { trail: Point[] };
+
+export interface Snapshot {
+  tick: number;
+  config: GameConfig;
+  // Run-length encoded ownership grid: [owner, count, owner, count, ...]
+  ownership: number[];
+  snakes: SnakeSnapshot[];
+}
+
+export interface Delta {
+  tick: number;
+  // Changed cells as flat [index, owner, index, owner, ...] pairs
+  cells: number[];
+  // Snakes that joined or changed since the previous tick
+  snakes: SnakeSnapshot[];
+  // Ids of snakes that left the room
+  removed: number[];
+}
+
+const toSnakeSnapshot = ({ territories, brain, trailBuffer, trailLength, ...snake }: Snake): SnakeSnapshot => ({
+  ...snake,
+  trail: trailBuffer.slice(0, trailLength),
+});
+
+const hasSnakeChanged = (before: Snake, after: Snake): boolean => {
+  return before.x !== after.x ||
+    before.y !== after.y ||
+    before.direction !== after.direction ||
+    before.trailBuffer !== after.trailBuffer ||
+    before.trailLength !== after.trailLength ||
+    before.territoryArea !== after.territoryArea ||
+    before.isOutside !== after.isOutside ||
+    before.isAlive !== after.isAlive ||
+    before.kills !== after.kills ||
+    before.stats !== after.stats ||
+    before.name !== after.name;
+};
+
+// === ENCODE (server side) ===
+export const encodeSnapshot = (state: GameState): Snapshot => {
+  const ownership: number[] = [];
+  for (let i = 0; i < state.ownership.length; i++) {
+    const owner = state.ownership[i];
+    if (ownership.length > 0 && ownership[ownership.length - 2] === owner) {
+      ownership[ownership.length - 1]++;
+    } else {
+      ownership.push(owner, 1);
+    }
+  }
+
+  return {
+    tick: state.tick,
+    config: state.config,
+    ownership,
+    snakes: state.snakes.map(toSnakeSnapshot),
+  };
+};
+
+export const encodeDelta = (before: GameState, after: GameState): Delta => {
+  const cells: number[] = [];
+  if (before.ownership !== after.ownership) {
+    for (let i = 0; i < after.ownership.length; i++) {
+      if (before.ownership[i] !== after.ownership[i]) cells.push(i, after.ownership[i]);
+    }
+  }
+
+  const previous = new Map(before.snakes.map(snake => [snake.id, snake]));
+  const remaining = new Set(after.snakes.map(snake => snake.id));
+
+  return {
+    tick: after.tick,
+    cells,
+    snakes: after.snakes
+      .filter(snake => !previous.has(snake.id) || hasSnakeChanged(previous.get(snake.id)!, snake))
+      .map(toSnakeSnapshot),
+    removed: before.snakes.filter(snake => !remaining.has(snake.id)).map(snake => snake.id),
+  };
+};
+
+// === DECODE (client side) ===
+// Rebuilds a renderable GameState; outlines are traced from the grid
+const fromSnapshot = ({ trail, ...snake }: SnakeSnapshot): Omit<Snake, "territories" | "brain"> => ({
+  ...snake,
+  trailBuffer: trail,
+  trailLength: trail.length,
+});
+
+const withOutline = (state: GameState, snake: Omit<Snake, "territories" | "brain">): Snake => ({
+  ...snake,
+  territories: snake.isAlive
+    ? traceCells(state.ownership, state.config.gridWidth, state.config.gridHeight, snake.id)
+    : [],
+  brain: null,
+});
+
+export const decodeSnapshot = (snapshot: Snapshot): GameState => {
+  const { gridWidth, gridHeight } = snapshot.config;
+  const ownership = new Uint8Array(gridWidth * gridHeight);
+  let offset = 0;
+  for (let i = 0; i < snapshot.ownership.length; i += 2) {
+    ownership.fill(snapshot.ownership[i], offset, offset + snapshot.ownership[i + 1]);
+    offset += snapshot.ownership[i + 1];
+  }
+
+  const state: GameState = {
+    config: snapshot.config,
+    tick: snapshot.tick,
+    rngState: 0,
+    ownership,
+    trailGrid: new Uint8Array(0),
+    snakes: [],
+    isGameOver: false,
+    isVictory: false,
+  };
+  state.snakes = snapshot.snakes.map(snake => withOutline(state, fromSnapshot(snake)));
+  state.trailGrid = buildTrailGrid(gridWidth, gridHeight, state.snakes);
+  return state;
+};
+
+export const applyDelta = (state: GameState, delta: Delta): GameState => {
+  let ownership = state.ownership;
+  const reshaped = new Set<number>();
+
+  if (delta.cells.length > 0) {
+    ownership = ownership.slice();
+    for (let i = 0; i < delta.cells.length; i += 2) {
+      reshaped.add(ownership[delta.cells[i]]);
+      reshaped.add(delta.cells[i + 1]);
+      ownership[delta.cells[i]] = delta.cells[i + 1];
+    }
+  }
+
+  const next: GameState = { ...state, tick: delta.tick, ownership };
+  const updates = new Map(delta.snakes.map(snake => [snake.id, snake]));
+  const removed = new Set(delta.removed);
+
+  const snakes = state.snakes
+    .filter(snake => !removed.has(snake.id))
+    .map(snake => {
+      const update = updates.get(snake.id);
+      updates.delete(snake.id);
+      if (!update) {
+        return reshaped.has(snake.id) ? withOutline(next, snake) : snake;
+      }
+      return reshaped.has(snake.id) || update.isAlive !== snake.isAlive
+        ? withOutline(next, fromSnapshot(update))
+        : { ...snake, ...fromSnapshot(update) };
+    });
+
+  // Whatever is left over joined this tick
+  for (const snake of updates.values()) snakes.push(withOutline(next, fromSnapshot(snake)));
+
+  next.snakes = snakes;
+  next.trailGrid = buildTrailGrid(next.config.gridWidth, next.config.gridHeight, snakes);
+  return next;
+};
@@ -0,0 +1,64 @@
+import { registerSW } from "virtual:pwa-register";
+import { toast } from "@/components/ui/sonner";
+
+// === SERVICE WORKER ===
+// The worker precaches the whole build, so after the first visit the game
+// loads and plays without a connection. A new build is only switched to
+// when the player asks, since reloading would end a run in progress.
+export const registerServiceWorker = () => {
+  const updateServiceWorker = registerSW({
+    onNeedRefresh: () => {
+      toast("A new version of Paper Snake is available", {
+        duration: Infinity,
+        action: { label: "Reload", onClick: () => updateServiceWorker(true) },
+      });
+    },
+    onOfflineReady: () => toast.success("Paper Snake can now be played offline"),
+  });
+};
+
+// === INSTALL PROMPT ===
+// Chromium browsers offer installing through a `beforeinstallprompt` event,
+// which can fire before the page has rendered, so it is kept here until the
+// start screen asks for it. Other browsers never fire it.
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+let installPrompt: BeforeInstallPromptEvent | null = null;
+const installListeners = new Set<(available: boolean) => void>();
+
+const setInstallPrompt = (event: BeforeInstallPromptEvent | null) => {
+  installPrompt = event;
+  installListeners.forEach(listener => listener(event !== null));
+};
+
+export const listenForInstallPrompt = () => {
+  window.addEventListener("beforeinstallprompt", (e) => {
+    // Keeps the browser's own banner away; the start screen has a button
+    e.preventDefault();
+    setInstallPrompt(e as BeforeInstallPromptEvent);
+  });
+  window.addEventListener("appinstalled", () => setInstallPrompt(null));
+};
+
+// Calls `listener` now and whenever installing becomes possible or not
+export const watchInstallPrompt = (listener: (available: boolean) => void): (() => void) => {
+  listener(installPrompt !== null);
+  installListeners.add(listener);
+  return () => {
+    installListeners.delete(listener);
+  };
+};
+
+// Shows the browser's install dialog. The event can only be used once, so
+// the button goes away whatever the player chooses.
+export const promptInstall = async (): Promise<boolean> => {
+  const event = installPrompt;
+  if (!event) return false;
+  setInstallPrompt(null);
+  await event.prompt();
+  const { outcome } = await event.userChoice;
+  return outcome === "accepted";
+};
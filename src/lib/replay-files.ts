@@ -0,0 +1,20 @@
+import { parseReplay, type Replay } from "@/lib/game";
+
+// Saves a replay as a .json download so it can be shared
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const name = replay.config.playerName?.replace(/[^\w-]+/g, "_") || "game";
+  const date = replay.recordedAt.slice(0, 19).replace(/[:T]/g, "-");
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `paper-snake-${name}-${date}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads a replay chosen through a file input; rejects with a readable message
+export const readReplayFile = async (file: File): Promise<Replay> => {
+  return parseReplay(await file.text());
+};
@@ -0,0 +1,6 @@
+import type { z } from "zod";
+
+// === TYPED SCHEMAS ===
+// Without strictNullChecks zod infers every object field as optional. This
+// states the type a schema really produces, so parsed values need no casts.
+export const typedSchema = <T>(schema: z.ZodTypeAny): z.ZodType<T> => schema;
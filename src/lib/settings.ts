@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { KEY_PRESETS, MAX_KEYS_PER_DIRECTION, PAUSE_KEYS, type KeyBindings } from "@/lib/input";
+import { typedSchema } from "@/lib/schema";
+
+// === GAME SETTINGS ===
+// Chosen on the settings page and kept in localStorage. Anything unreadable
+// or out of range falls back to the defaults.
+const SETTINGS_KEY = "paper-snake:settings";
+
+// Square arenas, in cells, the same on every screen
+export const ARENA_SIZES = {
+  small: { label: "Small", gridSize: 100 },
+  medium: { label: "Medium", gridSize: 200 },
+  large: { label: "Large", gridSize: 300 },
+} as const;
+
+export type ArenaSize = keyof typeof ARENA_SIZES;
+
+// How a touch screen steers; swipes work with any of them
+export const TOUCH_CONTROLS = {
+  swipe: { label: "Swipe only" },
+  dpad: { label: "D-pad" },
+  joystick: { label: "Joystick" },
+} as const;
+
+export type TouchControls = keyof typeof TOUCH_CONTROLS;
+
+const directionKeys = z.array(z.string().min(1)).min(1, "Needs at least one key").max(MAX_KEYS_PER_DIRECTION);
+
+const keyBindingsSchema = typedSchema<KeyBindings>(z
+  .object({ UP: directionKeys, DOWN: directionKeys, LEFT: directionKeys, RIGHT: directionKeys })
+  .refine(bindings => {
+    const keys = Object.values(bindings).flat();
+    return new Set(keys).size === keys.length;
+  }, "Each key can only turn one way")
+  .refine(bindings => !Object.values(bindings).flat().some(key => PAUSE_KEYS.includes(key)), "Escape and P pause the game"));
+
+export const settingsSchema = z.object({
+  arenaSize: z.enum(["small", "medium", "large"]),
+  // Cells moved per second
+  speed: z.number().int().min(5).max(20),
+  // Side length of the starting square; odd so the snake sits in its centre
+  startingTerritory: z.number().int().min(3).max(11).refine(size => size % 2 === 1, "Must be an odd number"),
+  showGrid: z.boolean(),
+  showMinimap: z.boolean(),
+  // Share of the arena that wins the game
+  victoryPercentage: z.number().int().min(50).max(100),
+  // Index into the snake colour palette
+  playerColor: z.number().int().min(0).max(7),
+  keyBindings: keyBindingsSchema,
+  // Head toward the mouse pointer; the keys keep working alongside
+  mouseSteering: z.boolean(),
+  touchControls: z.enum(["swipe", "dpad", "joystick"]),
+  // Higher turns after a shorter swipe or joystick drag
+  touchSensitivity: z.number().int().min(1).max(10),
+  // Side of the screen the on-screen controls and pause button sit on
+  handedness: z.enum(["left", "right"]),
+});
+
+export type GameSettings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  arenaSize: "medium",
+  speed: 10,
+  startingTerritory: 5,
+  showGrid: true,
+  showMinimap: true,
+  victoryPercentage: 100,
+  playerColor: 0,
+  keyBindings: KEY_PRESETS.both.bindings,
+  mouseSteering: false,
+  touchControls: "swipe",
+  touchSensitivity: 5,
+  handedness: "right",
+};
+
+export const loadSettings = (): GameSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "null");
+    const parsed = settingsSchema.safeParse({ ...DEFAULT_SETTINGS, ...stored });
+    return parsed.success ? parsed.data : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: GameSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Settings then only last for this visit
+  }
+};
+
+// Milliseconds per simulation step at the chosen speed
+export const tickMsFor = (settings: GameSettings) => Math.round(1000 / settings.speed);
+
+// CSS pixels a finger must travel before a swipe or joystick drag turns,
+// from 40 at the lowest sensitivity down to 8 at the highest
+export const touchThresholdFor = (settings: GameSettings) => Math.round(44 - settings.touchSensitivity * 3.6);
@@ -1,31 +1,98 @@
 import { useState, useCallback } from "react";
-import { NameInputModal } from "@/components/game/NameInputModal";
+import { useNavigate } from "react-router-dom";
+import { NameInputModal, type GameSetup } from "@/components/game/NameInputModal";
 import { PaperSnakeGame } from "@/components/game/PaperSnakeGame";
 import { GameOverOverlay } from "@/components/game/GameOverOverlay";
+import { GamepadIndicator } from "@/components/game/GamepadIndicator";
+import { PauseOverlay } from "@/components/game/PauseOverlay";
+import { VictoryOverlay } from "@/components/game/VictoryOverlay";
+import type { RunSummaryProps } from "@/components/game/RunSummary";
+import type { Replay, RunResult } from "@/lib/game";
+import { downloadReplay } from "@/lib/replay-files";
+import { loadSettings } from "@/lib/settings";
+import { addLeaderboardEntry, loadLeaderboard, rankEntries, type RankedEntry } from "@/lib/leaderboard";
 
-type GamePhase = "name" | "playing" | "gameover";
+// Leaderboard rows shown on the end-of-run screens
+const STANDINGS_SHOWN = 5;
+
+type GamePhase = "name" | "playing" | "paused" | "gameover" | "victory";
 
 const Index = () => {
   const [phase, setPhase] = useState<GamePhase>("name");
   const [playerName, setPlayerName] = useState("");
-  const [finalScore, setFinalScore] = useState(0);
+  const [setup, setSetup] = useState<GameSetup>({ mode: "classic", botDifficulty: null, serverUrl: null });
+  const [lastResult, setLastResult] = useState<RunResult | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [standings, setStandings] = useState<RankedEntry[]>([]);
+  const [lastEntryId, setLastEntryId] = useState<string | null>(null);
   const [gameKey, setGameKey] = useState(0);
+  // Read once per visit; the settings page is a separate route
+  const [settings] = useState(loadSettings);
+  const navigate = useNavigate();
 
-  const handleStart = useCallback((name: string) => {
+  const handleStart = useCallback((name: string, gameSetup: GameSetup) => {
     setPlayerName(name);
+    setSetup(gameSetup);
     setPhase("playing");
   }, []);
 
-  const handleGameOver = useCallback((score: number) => {
-    setFinalScore(score);
-    setPhase("gameover");
-  }, []);
+  // Records the run on the leaderboard and shows how it placed
+  const finishRun = useCallback((result: RunResult, replay: Replay | null, outcome: "gameover" | "victory") => {
+    const entry = addLeaderboardEntry({
+      name: playerName,
+      mode: result.mode,
+      percentage: result.score,
+      durationMs: result.durationMs,
+      kills: result.kills,
+    });
+    // The top of this mode's board, plus this run wherever it placed
+    const ranked = rankEntries(loadLeaderboard().filter(other => other.mode === result.mode));
+    const own = ranked.find(row => row.entry.id === entry.id);
+    const top = ranked.slice(0, STANDINGS_SHOWN);
+
+    setLastResult(result);
+    setLastReplay(replay);
+    setStandings(own && own.rank > STANDINGS_SHOWN ? [...top, own] : top);
+    setLastEntryId(entry.id);
+    setPhase(outcome);
+  }, [playerName]);
+
+  const handleGameOver = useCallback((result: RunResult, replay: Replay | null) => {
+    finishRun(result, replay, "gameover");
+  }, [finishRun]);
+
+  const handleVictory = useCallback((result: RunResult, replay: Replay) => {
+    finishRun(result, replay, "victory");
+  }, [finishRun]);
 
   const handleRestart = useCallback(() => {
     setGameKey((k) => k + 1);
     setPhase("playing");
   }, []);
 
+  const handlePause = useCallback(() => {
+    setPhase((current) => (current === "playing" ? "paused" : current));
+  }, []);
+
+  const handleResume = useCallback(() => {
+    setPhase("playing");
+  }, []);
+
+  const handleQuit = useCallback(() => {
+    setGameKey((k) => k + 1);
+    setPhase("name");
+  }, []);
+
+  const summary: RunSummaryProps | null = lastResult && {
+    result: lastResult,
+    onRestart: handleRestart,
+    onWatchReplay: lastReplay ? () => navigate("/replay", { state: { replay: lastReplay } }) : undefined,
+    onExportReplay: lastReplay ? () => downloadReplay(lastReplay) : undefined,
+    standings,
+    highlightId: lastEntryId,
+    onShowLeaderboard: () => navigate("/leaderboard", { state: { highlightId: lastEntryId } }),
+  };
+
   return (
     <main className="relative h-full w-full overflow-hidden bg-background">
       {/* Game canvas is always rendered for smooth transitions */}
@@ -33,15 +100,25 @@ const Index = () => {
         <PaperSnakeGame
           key={gameKey}
           playerName={playerName}
+          settings={settings}
+          botDifficulty={setup.botDifficulty}
+          serverUrl={setup.serverUrl}
+          mode={setup.mode}
+          isPaused={phase === "paused"}
+          onPause={handlePause}
           onGameOver={handleGameOver}
+          onVictory={handleVictory}
         />
       )}
 
       {/* Overlays */}
       {phase === "name" && <NameInputModal onStart={handleStart} />}
-      {phase === "gameover" && (
-        <GameOverOverlay score={finalScore} onRestart={handleRestart} />
+      {phase === "paused" && (
+        <PauseOverlay onResume={handleResume} onRestart={handleRestart} onQuit={handleQuit} />
       )}
+      {phase === "gameover" && summary && <GameOverOverlay {...summary} />}
+      {phase === "victory" && summary && <VictoryOverlay {...summary} />}
+      <GamepadIndicator />
     </main>
   );
 };
@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LeaderboardTable, type LeaderboardSort } from "@/components/game/LeaderboardTable";
+import { GAME_MODES, type GameMode } from "@/lib/game";
+import { compareEntries, loadLeaderboard, rankEntries, type RankedEntry } from "@/lib/leaderboard";
+
+const ALL_PLAYERS = "__all__";
+const ALL_MODES = "__all__";
+
+// Date inputs give yyyy-mm-dd; both ends of the range are whole local days
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00`).getTime() : -Infinity);
+const endOfDay = (value: string) => (value ? new Date(`${value}T00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity);
+
+const compareBy = ({ key, descending }: LeaderboardSort) => (a: RankedEntry, b: RankedEntry) => {
+  const order = key === "date"
+    ? a.entry.date.localeCompare(b.entry.date)
+    : a.entry[key] - b.entry[key];
+  return (descending ? -order : order) || compareEntries(a.entry, b.entry);
+};
+
+const Leaderboard = () => {
+  const location = useLocation();
+  // Set when arriving from the game-over screen
+  const highlightId = (location.state as { highlightId?: string | null } | null)?.highlightId ?? null;
+  const ranked = useMemo(() => rankEntries(loadLeaderboard()), []);
+  const players = useMemo(() => [...new Set(ranked.map(row => row.entry.name))].sort(), [ranked]);
+
+  const [player, setPlayer] = useState(ALL_PLAYERS);
+  const [mode, setMode] = useState<GameMode | typeof ALL_MODES>(ALL_MODES);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [sort, setSort] = useState<LeaderboardSort>({ key: "percentage", descending: true });
+
+  const rows = useMemo(() => {
+    const after = startOfDay(from);
+    const before = endOfDay(to);
+    return ranked
+      .filter(({ entry }) => {
+        const time = new Date(entry.date).getTime();
+        return (player === ALL_PLAYERS || entry.name === player) &&
+          (mode === ALL_MODES || entry.mode === mode) &&
+          time >= after &&
+          time < before;
+      })
+      .sort(compareBy(sort));
+  }, [ranked, player, mode, from, to, sort]);
+
+  return (
+    <main className="relative h-full w-full overflow-auto bg-background">
+      <header className="flex items-center justify-between gap-4 px-4 py-3">
+        <Button asChild variant="ghost">
+          <Link to="/">
+            <ArrowLeft />
+            Back
+          </Link>
+        </Button>
+
+        <h1 className="font-display font-black text-2xl text-primary text-glow tracking-wider">
+          LEADERBOARD
+        </h1>
+
+        {/* Balances the back button so the title stays centred */}
+        <div className="w-20" />
+      </header>
+
+      <div className="mx-auto w-full max-w-3xl space-y-4 px-4 pb-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Player
+            </label>
+            <Select value={player} onValueChange={setPlayer}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PLAYERS}>All players</SelectItem>
+                {players.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Mode
+            </label>
+            <Select value={mode} onValueChange={(value) => setMode(value as GameMode | typeof ALL_MODES)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MODES}>All modes</SelectItem>
+                {Object.entries(GAME_MODES).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              From
+            </label>
+            <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              To
+            </label>
+            <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+          {(player !== ALL_PLAYERS || mode !== ALL_MODES || from || to) && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setPlayer(ALL_PLAYERS);
+                setMode(ALL_MODES);
+                setFrom("");
+                setTo("");
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {rows.length > 0 ? (
+          <div className="rounded-lg border border-border">
+            <LeaderboardTable rows={rows} highlightId={highlightId} sort={sort} onSortChange={setSort} />
+          </div>
+        ) : (
+          <p className="pt-16 text-center text-lg text-muted-foreground">
+            {ranked.length > 0 ? "No runs match these filters." : "No runs yet. Play a game to get on the board!"}
+          </p>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,87 @@
+import { useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ArrowLeft, Download, Upload } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { Button } from "@/components/ui/button";
+import { ReplayViewer } from "@/components/game/ReplayViewer";
+import type { Replay as ReplayData } from "@/lib/game";
+import { downloadReplay, readReplayFile } from "@/lib/replay-files";
+
+const Replay = () => {
+  const location = useLocation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A run handed over from the game-over screen, or one imported here
+  const [replay, setReplay] = useState<ReplayData | null>(
+    (location.state as { replay?: ReplayData } | null)?.replay ?? null
+  );
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setReplay(await readReplayFile(file));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not open replay");
+    }
+  };
+
+  return (
+    <main className="relative h-full w-full overflow-auto bg-background">
+      <header className="flex items-center justify-between gap-4 px-4 py-3">
+        <Button asChild variant="ghost">
+          <Link to="/">
+            <ArrowLeft />
+            Back
+          </Link>
+        </Button>
+
+        <h1 className="font-display font-black text-2xl text-primary text-glow tracking-wider">
+          REPLAY
+        </h1>
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="ghost" onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import
+          </Button>
+          {replay && (
+            <Button variant="ghost" onClick={() => downloadReplay(replay)}>
+              <Download />
+              Export
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {replay ? (
+        <div className="space-y-2 pb-6">
+          <p className="text-center text-sm text-muted-foreground">
+            <span className="text-primary font-semibold">{replay.config.playerName ?? "Arena"}</span>
+            {" · "}
+            {new Date(replay.recordedAt).toLocaleString()}
+          </p>
+          <ReplayViewer replay={replay} />
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center gap-4 pt-32 text-center px-6">
+          <p className="text-lg text-muted-foreground">No replay loaded.</p>
+          <Button variant="neon" size="lg" onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import Replay
+          </Button>
+        </div>
+      )}
+    </main>
+  );
+};
+
+export default Replay;
@@ -0,0 +1,335 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { KeyBindingsEditor } from "@/components/KeyBindingsEditor";
+import { SNAKE_PALETTE } from "@/components/game/renderer";
+import {
+  ARENA_SIZES,
+  DEFAULT_SETTINGS,
+  loadSettings,
+  saveSettings,
+  settingsSchema,
+  TOUCH_CONTROLS,
+  type ArenaSize,
+  type GameSettings,
+  type TouchControls,
+} from "@/lib/settings";
+
+const COLOR_NAMES = ["Teal", "Violet", "Amber", "Red", "Blue", "Green", "Pink", "Orange"];
+
+const Settings = () => {
+  const form = useForm<GameSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: loadSettings(),
+  });
+
+  const handleSubmit = (settings: GameSettings) => {
+    saveSettings(settings);
+    form.reset(settings);
+    toast.success("Settings saved");
+  };
+
+  return (
+    <main className="relative h-full w-full overflow-auto bg-background">
+      <header className="flex items-center justify-between gap-4 px-4 py-3">
+        <Button asChild variant="ghost">
+          <Link to="/">
+            <ArrowLeft />
+            Back
+          </Link>
+        </Button>
+
+        <h1 className="font-display font-black text-2xl text-primary text-glow tracking-wider">
+          SETTINGS
+        </h1>
+
+        {/* Balances the back button so the title stays centred */}
+        <div className="w-20" />
+      </header>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="mx-auto w-full max-w-md space-y-8 px-6 pb-10 pt-4">
+          <FormField
+            control={form.control}
+            name="arenaSize"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="uppercase tracking-wider">Arena size</FormLabel>
+                <Select value={field.value} onValueChange={(value) => field.onChange(value as ArenaSize)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(ARENA_SIZES).map(([value, { label, gridSize }]) => (
+                      <SelectItem key={value} value={value}>{label} ({gridSize}×{gridSize})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Bigger arenas take longer to conquer.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="speed"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel className="uppercase tracking-wider">Speed</FormLabel>
+                  <span className="font-display text-sm text-primary tabular-nums">{field.value} cells/s</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={5}
+                    max={20}
+                    step={1}
+                    value={[field.value]}
+                    onValueChange={([value]) => field.onChange(value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="startingTerritory"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel className="uppercase tracking-wider">Starting territory</FormLabel>
+                  <span className="font-display text-sm text-primary tabular-nums">
+                    {field.value}×{field.value}
+                  </span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={3}
+                    max={11}
+                    step={2}
+                    value={[field.value]}
+                    onValueChange={([value]) => field.onChange(value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="victoryPercentage"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel className="uppercase tracking-wider">Victory at</FormLabel>
+                  <span className="font-display text-sm text-primary tabular-nums">{field.value}%</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={50}
+                    max={100}
+                    step={5}
+                    value={[field.value]}
+                    onValueChange={([value]) => field.onChange(value)}
+                  />
+                </FormControl>
+                <FormDescription>Share of the arena you need to win outright.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="showGrid"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <FormLabel className="uppercase tracking-wider">Show grid</FormLabel>
+                  <FormDescription>Draw the cell grid behind the arena.</FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="showMinimap"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <FormLabel className="uppercase tracking-wider">Show minimap</FormLabel>
+                  <FormDescription>Overview of the whole arena in the corner.</FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="playerColor"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="uppercase tracking-wider">Snake colour</FormLabel>
+                <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SNAKE_PALETTE.map((colors, i) => (
+                      <SelectItem key={colors.snake} value={String(i)}>
+                        <span className="flex items-center gap-2">
+                          <span className="size-3 rounded-full" style={{ backgroundColor: colors.snake }} />
+                          {COLOR_NAMES[i]}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="keyBindings"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="uppercase tracking-wider">Controls</FormLabel>
+                <KeyBindingsEditor value={field.value} onChange={field.onChange} />
+                <FormDescription>Up to two keys per direction. Esc and P always pause.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="mouseSteering"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <FormLabel className="uppercase tracking-wider">Mouse steering</FormLabel>
+                  <FormDescription>Head toward the mouse pointer. The keys still work.</FormDescription>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="touchControls"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="uppercase tracking-wider">Touch controls</FormLabel>
+                <Select value={field.value} onValueChange={(value) => field.onChange(value as TouchControls)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(TOUCH_CONTROLS).map(([value, { label }]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>On-screen steering for phones and tablets. Swiping always works.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="touchSensitivity"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel className="uppercase tracking-wider">Touch sensitivity</FormLabel>
+                  <span className="font-display text-sm text-primary tabular-nums">{field.value}</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={1}
+                    max={10}
+                    step={1}
+                    value={[field.value]}
+                    onValueChange={([value]) => field.onChange(value)}
+                  />
+                </FormControl>
+                <FormDescription>How short a swipe or joystick drag turns the snake.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="handedness"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <FormLabel className="uppercase tracking-wider">Controls side</FormLabel>
+                  <FormDescription>Where the on-screen controls and pause button sit.</FormDescription>
+                </div>
+                <FormControl>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={field.value}
+                    onValueChange={(value) => value && field.onChange(value)}
+                  >
+                    <ToggleGroupItem value="left">Left</ToggleGroupItem>
+                    <ToggleGroupItem value="right">Right</ToggleGroupItem>
+                  </ToggleGroup>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <div className="flex items-center gap-3">
+            <Button type="submit" variant="game" size="lg" className="flex-1" disabled={!form.formState.isDirty}>
+              Save
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => form.reset(DEFAULT_SETTINGS, { keepDefaultValues: true })}
+            >
+              Reset to defaults
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </main>
+  );
+};
+
+export default Settings;
@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +10,37 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    // Installable and playable offline. The service worker precaches the
+    // build (fonts included) and waits for the page to accept an update,
+    // see src/lib/pwa.ts.
+    VitePWA({
+      registerType: "prompt",
+      // Already precached by the glob below
+      includeManifestIcons: false,
+      manifest: {
+        name: "Paper Snake",
+        short_name: "Paper Snake",
+        description: "Territory capture game inspired by Paper.io. Expand your territory, avoid edges, and claim the map!",
+        theme_color: "#000000",
+        background_color: "#000000",
+        display: "fullscreen",
+        orientation: "any",
+        icons: [
+          { src: "pwa-192x192.png", sizes: "192x192", type: "image/png" },
+          { src: "pwa-512x512.png", sizes: "512x512", type: "image/png" },
+          { src: "maskable-512x512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
+        // Every route is the app itself, so offline navigation gets the cached page
+        navigateFallback: "index.html",
+      },
+    }),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
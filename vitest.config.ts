@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Kept apart from vite.config.ts so tests run without the app's build
+// plugins. Everything under test is plain TypeScript run in Node.
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts", "server/**/*.test.ts"],
+    environment: "node",
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});